@@ -1,3 +1,5 @@
+import { batchedUpdates } from "react";
+
 export const createObserver = () => {
   const listeners = new Set();
   const subscribe = (fn) => {
@@ -7,8 +9,9 @@ export const createObserver = () => {
       listeners.delete(fn);
     };
   };
+  // 여러 구독자가 setState를 호출하더라도 한 번의 렌더링으로 처리
   const notify = () => {
-    listeners.forEach((listener) => listener());
+    batchedUpdates(() => listeners.forEach((listener) => listener()));
   };
 
   return { subscribe, notify };
@@ -0,0 +1,205 @@
+/** @jsx createElement */
+/** @jsxFrag Fragment */
+import { describe, expect, it, vi } from "vitest";
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { createElement, Fragment } from "../core";
+import { ErrorBoundary, lazy, setup, Suspense, useEffect, useState, type FunctionComponent } from "../core";
+import { getRootContext } from "../core/setup";
+
+const flushMicrotasks = async () => await Promise.resolve();
+
+describe("경계 컴포넌트 > ", () => {
+  describe("ErrorBoundary", () => {
+    it("렌더링 중 발생한 에러를 잡아 fallback을 렌더링하고, 경계 밖의 형제는 유지한다", async () => {
+      let breakChild: () => void;
+
+      function Broken({ broken }: { broken: boolean }) {
+        if (broken) {
+          throw new Error("render failed");
+        }
+        return <span>ok</span>;
+      }
+
+      function App() {
+        const [broken, setBroken] = useState(false);
+        breakChild = () => setBroken(true);
+        return (
+          <div>
+            <p>before</p>
+            <ErrorBoundary fallback={(error) => <em>{(error as Error).message}</em>}>
+              <Broken broken={broken} />
+            </ErrorBoundary>
+            <p>after</p>
+          </div>
+        );
+      }
+
+      const container = document.createElement("div");
+      setup(<App />, container);
+      expect(container.querySelector("div")?.innerHTML).toBe("<p>before</p><span>ok</span><p>after</p>");
+
+      breakChild!();
+      await flushMicrotasks();
+
+      expect(container.querySelector("div")?.innerHTML).toBe("<p>before</p><em>render failed</em><p>after</p>");
+      expect(getRootContext(container).hooks.componentStack).toEqual([]);
+    });
+
+    it("reset을 호출하면 에러 상태를 지우고 자식을 다시 렌더링한다", async () => {
+      let shouldThrow = true;
+      let reset: () => void;
+
+      function Flaky() {
+        if (shouldThrow) {
+          throw new Error("flaky");
+        }
+        return <span>recovered</span>;
+      }
+
+      const container = document.createElement("div");
+      setup(
+        <ErrorBoundary
+          fallback={(_, resetBoundary) => {
+            reset = resetBoundary;
+            return <em>failed</em>;
+          }}
+        >
+          <Flaky />
+        </ErrorBoundary>,
+        container,
+      );
+      expect(container.innerHTML).toBe("<em>failed</em>");
+
+      shouldThrow = false;
+      reset!();
+      await flushMicrotasks();
+      expect(container.innerHTML).toBe("<span>recovered</span>");
+    });
+
+    it("이펙트에서 발생한 에러를 잡아 하위 트리를 언마운트하고 fallback을 렌더링한다", async () => {
+      const cleanup = vi.fn();
+
+      function Sibling() {
+        useEffect(() => cleanup, []);
+        return <span>sibling</span>;
+      }
+
+      function Broken() {
+        useEffect(() => {
+          throw new Error("effect failed");
+        }, []);
+        return <span>broken</span>;
+      }
+
+      const container = document.createElement("div");
+      setup(
+        <ErrorBoundary fallback={<em>fallback</em>}>
+          <Sibling />
+          <Broken />
+        </ErrorBoundary>,
+        container,
+      );
+      expect(container.innerHTML).toBe("<span>sibling</span><span>broken</span>");
+
+      await flushMicrotasks();
+      await flushMicrotasks();
+
+      expect(container.innerHTML).toBe("<em>fallback</em>");
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it("경계가 없으면 에러를 전파하되 컴포넌트 스택을 남기지 않는다", () => {
+      function Broken(): never {
+        throw new Error("no boundary");
+      }
+
+      const container = document.createElement("div");
+      expect(() =>
+        setup(
+          <div>
+            <Broken />
+          </div>,
+          container,
+        ),
+      ).toThrowError("no boundary");
+      expect(getRootContext(container).hooks.componentStack).toEqual([]);
+    });
+  });
+
+  describe("Suspense / lazy", () => {
+    it("lazy 컴포넌트를 불러오는 동안 fallback을 렌더링하고, 완료되면 다시 렌더링한다", async () => {
+      type PageModule = { default: FunctionComponent<{ name: string }> };
+      let resolveModule: (module: PageModule) => void;
+      const Page = lazy(
+        () =>
+          new Promise<PageModule>((resolve) => {
+            resolveModule = resolve;
+          }),
+      );
+
+      const container = document.createElement("div");
+      setup(
+        <Suspense fallback={<em>loading</em>}>
+          <Page name="상품 상세" />
+        </Suspense>,
+        container,
+      );
+      expect(container.innerHTML).toBe("<em>loading</em>");
+
+      resolveModule!({ default: ({ name }) => <h1>{name}</h1> });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(container.innerHTML).toBe("<h1>상품 상세</h1>");
+    });
+
+    it("suspend된 부분 밖의 형제 컴포넌트는 훅 상태를 유지한다", async () => {
+      let increase: () => void;
+      let showDetail: () => void;
+      let resolveData: () => void;
+      const dataPromise = new Promise<void>((resolve) => {
+        resolveData = resolve;
+      });
+      let ready = false;
+      dataPromise.then(() => {
+        ready = true;
+      });
+
+      function Counter() {
+        const [count, setCount] = useState(0);
+        increase = () => setCount((prev) => prev + 1);
+        return <span>{count}</span>;
+      }
+
+      function Detail() {
+        if (!ready) {
+          throw dataPromise;
+        }
+        return <p>detail</p>;
+      }
+
+      function App() {
+        const [visible, setVisible] = useState(false);
+        showDetail = () => setVisible(true);
+        return (
+          <div>
+            <Counter />
+            <Suspense fallback={<em>loading</em>}>{visible && <Detail />}</Suspense>
+          </div>
+        );
+      }
+
+      const container = document.createElement("div");
+      setup(<App />, container);
+
+      increase!();
+      await flushMicrotasks();
+      showDetail!();
+      await flushMicrotasks();
+      expect(container.querySelector("div")?.innerHTML).toBe("<span>1</span><em>loading</em>");
+
+      resolveData!();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(container.querySelector("div")?.innerHTML).toBe("<span>1</span><p>detail</p>");
+    });
+  });
+});
@@ -0,0 +1,669 @@
+/** @jsx createElement */
+/** @jsxFrag Fragment */
+import { afterEach, describe, expect, it, vi } from "vitest";
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { createElement, Fragment } from "../core";
+import {
+  batchedUpdates,
+  createContext,
+  ErrorBoundary,
+  flushSync,
+  renderRoot,
+  setup,
+  startTransition,
+  Suspense,
+  useContext,
+  useDeferredValue,
+  useEffect,
+  useLayoutEffect,
+  useState,
+  useTransition,
+} from "../core";
+import { memo } from "../hocs";
+
+const flushMicrotasks = async () => await Promise.resolve();
+
+/**
+ * performance.now()가 호출될 때마다 시간이 흐르도록 하여, 작업 루프가 작업 단위마다 중단되게 합니다.
+ */
+const advanceTimeOnEveryCall = (step: number) => {
+  let time = 0;
+  return vi.spyOn(performance, "now").mockImplementation(() => (time += step));
+};
+
+/**
+ * 다음 태스크로 예약되는 작업이 setTimeout으로 예약되도록 하고, 가짜 타이머로 한 태스크씩 직접 진행할 수 있게 합니다.
+ */
+const useFakeTasks = () => {
+  vi.stubGlobal("MessageChannel", undefined);
+  vi.useFakeTimers({ toFake: ["setTimeout"] });
+};
+
+describe("동시성 렌더링 > ", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  describe("작업 루프", () => {
+    const createList = () => {
+      const renders: number[] = [];
+      let setCount: (count: number) => void = () => {};
+
+      const Item = ({ index, count }: { index: number; count: number; key?: number }) => {
+        renders.push(index);
+        return <li>{count}</li>;
+      };
+
+      const List = () => {
+        const [count, set] = useState(0);
+        setCount = set;
+        return (
+          <ul>
+            {[0, 1, 2].map((index) => (
+              <Item key={index} index={index} count={count} />
+            ))}
+          </ul>
+        );
+      };
+
+      const container = document.createElement("div");
+      setup(<List />, container);
+      renders.length = 0;
+
+      return { container, renders, setCount: (count: number) => setCount(count) };
+    };
+
+    it("전환 렌더링은 시간 예산을 넘기면 중단했다가 다음 태스크에서 이어서 진행하고, 트리 전체가 끝난 뒤에 DOM에 반영한다", async () => {
+      const { container, renders, setCount } = createList();
+      useFakeTasks();
+      advanceTimeOnEveryCall(10);
+
+      startTransition(() => setCount(1));
+      await flushMicrotasks();
+      expect(renders).toEqual([]);
+
+      // 일부 컴포넌트만 렌더링된 상태에서는 DOM이 바뀌지 않음
+      vi.advanceTimersToNextTimer();
+      expect(renders.length).toBeLessThan(3);
+      expect(container.textContent).toBe("000");
+
+      vi.runAllTimers();
+      expect(container.textContent).toBe("111");
+      expect(renders).toEqual([0, 1, 2]);
+    });
+
+    it("전환 렌더링이 중단된 동안 예약된 전환 업데이트는 커밋이 끝난 뒤 다시 렌더링하여 반영한다", () => {
+      const { container, setCount } = createList();
+      useFakeTasks();
+      advanceTimeOnEveryCall(10);
+
+      startTransition(() => setCount(1));
+      vi.advanceTimersToNextTimer();
+      startTransition(() => setCount(2));
+
+      vi.runAllTimers();
+      expect(container.textContent).toBe("222");
+    });
+
+    it("긴급한 업데이트는 시간 예산을 넘기더라도 중단 없이 렌더링된다", async () => {
+      const { container, renders, setCount } = createList();
+      advanceTimeOnEveryCall(10);
+
+      setCount(1);
+      await flushMicrotasks();
+
+      expect(container.textContent).toBe("111");
+      expect(renders).toEqual([0, 1, 2]);
+    });
+
+    it("시간 예산 안에 끝나는 렌더링은 예약된 마이크로태스크에서 바로 커밋된다", async () => {
+      const { container, renders, setCount } = createList();
+
+      setCount(1);
+      await flushMicrotasks();
+
+      expect(container.textContent).toBe("111");
+      expect(renders).toEqual([0, 1, 2]);
+    });
+  });
+
+  describe("렌더 단계와 커밋 단계", () => {
+    it("경계가 잡지 못한 에러가 트리 깊은 곳에서 발생하면 DOM을 전혀 변경하지 않는다", () => {
+      const Broken = ({ step }: { step: number }) => {
+        if (step === 1) {
+          throw new Error("boom");
+        }
+        return <span>{step}</span>;
+      };
+
+      const App = ({ step }: { step: number }) => (
+        <div className={`step-${step}`}>
+          <p>{step}</p>
+          {step === 1 && <b>new</b>}
+          <section>
+            <Broken step={step} />
+          </section>
+        </div>
+      );
+
+      const container = document.createElement("div");
+      setup(<App step={0} />, container);
+      const html = container.innerHTML;
+      const paragraph = container.querySelector("p");
+
+      expect(() => renderRoot(<App step={1} />, container)).toThrow("boom");
+      expect(container.innerHTML).toBe(html);
+      expect(container.querySelector("p")).toBe(paragraph);
+
+      renderRoot(<App step={2} />, container);
+      expect(container.innerHTML).toBe('<div class="step-2"><p>2</p><section><span>2</span></section></div>');
+    });
+
+    it("레이아웃 이펙트는 모든 DOM 변경과 ref 연결이 반영된 뒤에 실행된다", async () => {
+      const measured: Array<string | null> = [];
+      let setItems: (items: string[]) => void = () => {};
+
+      const List = () => {
+        const [items, set] = useState(["a"]);
+        setItems = set;
+        const ref = { current: null as HTMLUListElement | null };
+        useLayoutEffect(() => {
+          measured.push(ref.current && ref.current.textContent);
+        });
+        return (
+          <ul ref={ref}>
+            {items.map((item) => (
+              <li key={item}>{item}</li>
+            ))}
+          </ul>
+        );
+      };
+
+      const container = document.createElement("div");
+      setup(<List />, container);
+      setItems(["c", "b", "a"]);
+      await flushMicrotasks();
+
+      expect(measured).toEqual(["a", "cba"]);
+    });
+  });
+
+  describe("flushSync / batchedUpdates", () => {
+    const createCounter = () => {
+      let renders = 0;
+      let setA: (value: number) => void = () => {};
+      let setB: (value: number) => void = () => {};
+
+      const Counter = () => {
+        const [a, updateA] = useState(0);
+        const [b, updateB] = useState(0);
+        setA = updateA;
+        setB = updateB;
+        renders++;
+        return (
+          <p>
+            {a}-{b}
+          </p>
+        );
+      };
+
+      const container = document.createElement("div");
+      setup(<Counter />, container);
+      renders = 0;
+
+      return {
+        container,
+        setA: (value: number) => setA(value),
+        setB: (value: number) => setB(value),
+        getRenders: () => renders,
+      };
+    };
+
+    it("flushSync는 함수 안의 업데이트와 이미 예약된 업데이트를 함께 동기적으로 커밋한다", async () => {
+      const { container, setA, setB, getRenders } = createCounter();
+
+      setA(1);
+      const result = flushSync(() => {
+        setB(2);
+        return "done";
+      });
+
+      expect(result).toBe("done");
+      expect(container.textContent).toBe("1-2");
+      expect(getRenders()).toBe(1);
+
+      // 예약되어 있던 마이크로태스크는 이미 커밋된 렌더링을 반복하지 않음
+      await flushMicrotasks();
+      expect(getRenders()).toBe(1);
+    });
+
+    it("flushSync는 진행 중인 전환 렌더링을 중단하고 긴급한 업데이트를 먼저 커밋한다", () => {
+      const { container, setA, setB } = createCounter();
+      useFakeTasks();
+      advanceTimeOnEveryCall(10);
+
+      startTransition(() => setA(1));
+      vi.advanceTimersToNextTimer();
+      expect(container.textContent).toBe("0-0");
+
+      flushSync(() => setB(2));
+      expect(container.textContent).toBe("0-2");
+
+      // 중단된 전환은 긴급한 업데이트가 반영된 상태 위에서 다시 렌더링됨
+      vi.runAllTimers();
+      expect(container.textContent).toBe("1-2");
+    });
+
+    it("batchedUpdates 안의 업데이트는 배치가 끝난 뒤 한 번의 렌더링으로 처리된다", async () => {
+      const { container, setA, setB, getRenders } = createCounter();
+
+      batchedUpdates(() => {
+        setA(1);
+        batchedUpdates(() => setB(2));
+        setA(3);
+      });
+      expect(container.textContent).toBe("0-0");
+
+      await flushMicrotasks();
+      expect(container.textContent).toBe("3-2");
+      expect(getRenders()).toBe(1);
+    });
+  });
+
+  describe("startTransition / useTransition / useDeferredValue", () => {
+    it("전환 중에 발생한 긴급한 업데이트가 먼저 커밋되고, 전환은 그 결과 위에 다시 적용된다", async () => {
+      let setText: (update: (prev: string) => string) => void = () => {};
+      const Text = () => {
+        const [text, set] = useState("a");
+        setText = set;
+        return <p>{text}</p>;
+      };
+
+      const container = document.createElement("div");
+      setup(<Text />, container);
+      useFakeTasks();
+      advanceTimeOnEveryCall(10);
+
+      startTransition(() => setText((prev) => prev + "b"));
+      vi.advanceTimersToNextTimer();
+      expect(container.textContent).toBe("a");
+
+      // 긴급한 업데이트는 아직 렌더링되지 않은 전환 업데이트를 건너뛰고 반영됨
+      setText((prev) => prev + "c");
+      await flushMicrotasks();
+      expect(container.textContent).toBe("ac");
+
+      // 전환은 원래 순서대로 긴급한 업데이트와 함께 다시 적용됨
+      vi.runAllTimers();
+      expect(container.textContent).toBe("abc");
+    });
+
+    it("useTransition의 isPending은 전환 업데이트가 렌더링될 때까지 true다", async () => {
+      let selectTab: (tab: number) => void = () => {};
+      const Tabs = () => {
+        const [tab, setTab] = useState(1);
+        const [isPending, start] = useTransition();
+        selectTab = (next) => start(() => setTab(next));
+        return (
+          <p>
+            {tab}:{isPending ? "pending" : "idle"}
+          </p>
+        );
+      };
+
+      const container = document.createElement("div");
+      setup(<Tabs />, container);
+      useFakeTasks();
+
+      selectTab(2);
+      await flushMicrotasks();
+      expect(container.textContent).toBe("1:pending");
+
+      vi.runAllTimers();
+      expect(container.textContent).toBe("2:idle");
+    });
+
+    it("useDeferredValue는 긴급한 렌더링에서 이전 값을 유지하고 전환 렌더링에서 새 값을 반영한다", async () => {
+      const listRenders: string[] = [];
+      let setQuery: (query: string) => void = () => {};
+
+      const List = ({ query }: { query: string }) => {
+        listRenders.push(query);
+        return <ul>{query}</ul>;
+      };
+
+      const Search = () => {
+        const [query, set] = useState("");
+        setQuery = set;
+        const deferredQuery = useDeferredValue(query);
+        return (
+          <div>
+            <input value={query} />
+            <List query={deferredQuery} />
+          </div>
+        );
+      };
+
+      const container = document.createElement("div");
+      setup(<Search />, container);
+      useFakeTasks();
+      listRenders.length = 0;
+
+      setQuery("ab");
+      await flushMicrotasks();
+      await flushMicrotasks();
+      expect(container.querySelector("input")!.value).toBe("ab");
+      expect(container.querySelector("ul")!.textContent).toBe("");
+
+      vi.runAllTimers();
+      expect(container.querySelector("ul")!.textContent).toBe("ab");
+      expect(listRenders).toEqual(["", "ab"]);
+    });
+
+    it("중단된 전환 렌더링의 Provider 값은 남지 않고, 전환을 다시 렌더링할 때 값을 읽은 컴포넌트에 전달된다", () => {
+      const ThemeContext = createContext("light");
+      const Label = memo(() => <span>{useContext(ThemeContext)}</span>);
+      let setTheme: (theme: string) => void = () => {};
+      let setCount: (count: number) => void = () => {};
+
+      const App = () => {
+        const [theme, setThemeState] = useState("light");
+        const [count, setCountState] = useState(0);
+        setTheme = setThemeState;
+        setCount = setCountState;
+        return (
+          <ThemeContext.Provider value={theme}>
+            <p>{count}</p>
+            <Label />
+          </ThemeContext.Provider>
+        );
+      };
+
+      const container = document.createElement("div");
+      setup(<App />, container);
+      useFakeTasks();
+      advanceTimeOnEveryCall(10);
+
+      // Provider까지만 렌더링된 상태에서 긴급한 업데이트가 전환 렌더링을 중단시킴
+      startTransition(() => setTheme("dark"));
+      vi.advanceTimersToNextTimer();
+      vi.advanceTimersToNextTimer();
+      flushSync(() => setCount(1));
+      expect(container.textContent).toBe("1light");
+
+      vi.runAllTimers();
+      expect(container.textContent).toBe("1dark");
+    });
+
+    it("중단된 전환 렌더링에서 바뀐 의존성은 남지 않고, 전환이 커밋되면 새 값으로 이펙트가 실행된다", async () => {
+      const logs: string[] = [];
+      let setValue: (value: string) => void = () => {};
+      let setCount: (count: number) => void = () => {};
+
+      const Effect = ({ value }: { value: string }) => {
+        useEffect(() => {
+          logs.push(value);
+        }, [value]);
+        return <p>{value}</p>;
+      };
+
+      const Counter = () => {
+        const [count, set] = useState(0);
+        setCount = set;
+        return <b>{count}</b>;
+      };
+
+      const App = () => {
+        const [value, set] = useState("a");
+        setValue = set;
+        return (
+          <>
+            <Effect value={value} />
+            <Counter />
+          </>
+        );
+      };
+
+      const container = document.createElement("div");
+      setup(<App />, container);
+      await flushMicrotasks();
+      useFakeTasks();
+      advanceTimeOnEveryCall(10);
+
+      // Effect까지 렌더링된 상태에서 관련 없는 컴포넌트의 긴급한 업데이트가 전환 렌더링을 중단시킴
+      startTransition(() => setValue("b"));
+      vi.advanceTimersToNextTimer();
+      vi.advanceTimersToNextTimer();
+      vi.advanceTimersToNextTimer();
+      flushSync(() => setCount(1));
+      expect(container.textContent).toBe("a1");
+
+      vi.runAllTimers();
+      await flushMicrotasks();
+      expect(container.textContent).toBe("b1");
+      expect(logs).toEqual(["a", "b"]);
+    });
+
+    it("중단된 전환 렌더링에서 ErrorBoundary가 잡은 에러는 남지 않고, 전환이 커밋될 때 fallback으로 반영된다", () => {
+      const renders: boolean[] = [];
+      let setBroken: (broken: boolean) => void = () => {};
+      let setCount: (count: number) => void = () => {};
+
+      const Child = ({ broken }: { broken: boolean }) => {
+        renders.push(broken);
+        if (broken) {
+          throw new Error("broken");
+        }
+        return <span>ok</span>;
+      };
+
+      const App = () => {
+        const [broken, setBrokenState] = useState(false);
+        const [count, setCountState] = useState(0);
+        setBroken = setBrokenState;
+        setCount = setCountState;
+        return (
+          <>
+            <p>{count}</p>
+            <ErrorBoundary fallback={<span>error</span>}>
+              <Child broken={broken} />
+            </ErrorBoundary>
+          </>
+        );
+      };
+
+      const container = document.createElement("div");
+      setup(<App />, container);
+      useFakeTasks();
+      advanceTimeOnEveryCall(10);
+
+      // ErrorBoundary가 에러를 잡은 상태에서 긴급한 업데이트가 전환 렌더링을 중단시킴
+      startTransition(() => setBroken(true));
+      for (let i = 0; i < 7; i++) {
+        vi.advanceTimersToNextTimer();
+      }
+      expect(renders).toEqual([false, true]);
+      flushSync(() => setCount(1));
+      expect(container.textContent).toBe("1ok");
+
+      vi.runAllTimers();
+      expect(container.textContent).toBe("1error");
+    });
+
+    it("중단된 전환 렌더링에서 Suspense가 잡은 thenable은 남지 않고, 전환이 커밋된 뒤 완료되면 내용을 다시 렌더링한다", async () => {
+      let resolve: () => void = () => {};
+      const promise = new Promise<void>((done) => (resolve = done));
+      let ready = false;
+      const renders: boolean[] = [];
+      let setLoading: (loading: boolean) => void = () => {};
+      let setCount: (count: number) => void = () => {};
+
+      const Child = ({ loading }: { loading: boolean }) => {
+        renders.push(loading);
+        if (loading && !ready) {
+          throw promise;
+        }
+        return <span>{loading ? "loaded" : "ok"}</span>;
+      };
+
+      const App = () => {
+        const [loading, setLoadingState] = useState(false);
+        const [count, setCountState] = useState(0);
+        setLoading = setLoadingState;
+        setCount = setCountState;
+        return (
+          <>
+            <p>{count}</p>
+            <Suspense fallback={<span>loading</span>}>
+              <Child loading={loading} />
+            </Suspense>
+          </>
+        );
+      };
+
+      const container = document.createElement("div");
+      setup(<App />, container);
+      useFakeTasks();
+      advanceTimeOnEveryCall(10);
+
+      // Suspense가 thenable을 잡은 상태에서 긴급한 업데이트가 전환 렌더링을 중단시킴
+      startTransition(() => setLoading(true));
+      for (let i = 0; i < 7; i++) {
+        vi.advanceTimersToNextTimer();
+      }
+      expect(renders).toEqual([false, true]);
+      flushSync(() => setCount(1));
+      expect(container.textContent).toBe("1ok");
+
+      vi.runAllTimers();
+      expect(container.textContent).toBe("1loading");
+
+      ready = true;
+      resolve();
+      await flushMicrotasks();
+      vi.runAllTimers();
+      await flushMicrotasks();
+      expect(container.textContent).toBe("1loaded");
+    });
+  });
+
+  describe("컴포넌트 단위 렌더링", () => {
+    it("상태가 바뀐 컴포넌트의 하위 트리만 다시 렌더링하고, 관련 없는 컴포넌트는 실행하지 않는다", async () => {
+      const renders: string[] = [];
+      const setters: Record<string, (value: number) => void> = {};
+
+      const Item = ({ name }: { name: string }) => {
+        const [count, setCount] = useState(0);
+        setters[name] = setCount;
+        renders.push(name);
+        return (
+          <li>
+            {name}:{count}
+          </li>
+        );
+      };
+
+      const Page = () => {
+        renders.push("page");
+        return (
+          <ul>
+            <Item name="a" />
+            <Item name="b" />
+          </ul>
+        );
+      };
+
+      const container = document.createElement("div");
+      setup(<Page />, container);
+      renders.length = 0;
+
+      setters.b(1);
+      await flushMicrotasks();
+      expect(container.textContent).toBe("a:0b:1");
+      expect(renders).toEqual(["b"]);
+    });
+
+    it("함께 업데이트된 조상과 자손은 위에서부터 한 번씩만 렌더링한다", async () => {
+      const renders: string[] = [];
+      let setParent: (value: number) => void = () => {};
+      let setChild: (value: number) => void = () => {};
+
+      const Child = ({ parent }: { parent: number }) => {
+        const [value, set] = useState(0);
+        setChild = set;
+        renders.push("child");
+        return (
+          <span>
+            {parent}-{value}
+          </span>
+        );
+      };
+
+      const Parent = () => {
+        const [value, set] = useState(0);
+        setParent = set;
+        renders.push("parent");
+        return <Child parent={value} />;
+      };
+
+      const container = document.createElement("div");
+      setup(<Parent />, container);
+      renders.length = 0;
+
+      setChild(2);
+      setParent(1);
+      await flushMicrotasks();
+      expect(container.textContent).toBe("1-2");
+      expect(renders).toEqual(["parent", "child"]);
+    });
+
+    it("업데이트된 컴포넌트는 조상의 Provider 값을 읽고, 하위 트리 밖의 경계가 렌더링 에러를 처리한다", async () => {
+      const ThemeContext = createContext("light");
+      const cleanups: string[] = [];
+      let setStep: (step: number) => void = () => {};
+
+      const Sibling = () => {
+        useEffect(() => () => cleanups.push("sibling"), []);
+        return <i>sibling</i>;
+      };
+
+      const Step = () => {
+        const [step, set] = useState(0);
+        setStep = set;
+        const theme = useContext(ThemeContext);
+        if (step === 2) {
+          throw new Error("boom");
+        }
+        return (
+          <b>
+            {theme}:{step}
+          </b>
+        );
+      };
+
+      const container = document.createElement("div");
+      setup(
+        <ThemeContext.Provider value="dark">
+          <ErrorBoundary fallback={(error) => <em>{(error as Error).message}</em>}>
+            <Sibling />
+            <Step />
+          </ErrorBoundary>
+        </ThemeContext.Provider>,
+        container,
+      );
+      await flushMicrotasks();
+
+      setStep(1);
+      await flushMicrotasks();
+      expect(container.textContent).toBe("siblingdark:1");
+
+      setStep(2);
+      await flushMicrotasks();
+      await flushMicrotasks();
+      expect(container.textContent).toBe("boom");
+      expect(cleanups).toEqual(["sibling"]);
+    });
+  });
+});
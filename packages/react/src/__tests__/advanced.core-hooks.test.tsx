@@ -0,0 +1,218 @@
+/** @jsx createElement */
+/** @jsxFrag Fragment */
+import { describe, expect, it, vi } from "vitest";
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { createElement, Fragment } from "../core";
+import { createContext, setup, useContext, useEffect, useLayoutEffect, useReducer, useState } from "../core";
+import { memo } from "../hocs";
+
+const flushMicrotasks = async () => await Promise.resolve();
+
+describe("코어 훅 확장 > ", () => {
+  describe("useReducer 훅", () => {
+    type Action = { type: "increment" } | { type: "noop" };
+
+    const reducer = (state: { count: number }, action: Action) => {
+      switch (action.type) {
+        case "increment":
+          return { count: state.count + 1 };
+        default:
+          return state;
+      }
+    };
+
+    it("init 함수로 초기 상태를 지연 계산하고 dispatch로 상태를 갱신한다", async () => {
+      const init = vi.fn((count: number) => ({ count }));
+      let dispatch: (action: Action) => void;
+
+      function Counter() {
+        const [state, send] = useReducer(reducer, 5, init);
+        dispatch = send;
+        return <span>{state.count}</span>;
+      }
+
+      const container = document.createElement("div");
+      setup(<Counter />, container);
+      expect(container.textContent).toBe("5");
+
+      dispatch!({ type: "increment" });
+      await flushMicrotasks();
+      expect(container.textContent).toBe("6");
+      expect(init).toHaveBeenCalledTimes(1);
+    });
+
+    it("dispatch는 렌더링 간에 같은 참조를 유지하고, 같은 상태를 반환하면 리렌더링하지 않는다", async () => {
+      const dispatches = new Set();
+      const renderSpy = vi.fn();
+      let dispatch: (action: Action) => void;
+
+      function Counter() {
+        const [state, send] = useReducer(reducer, { count: 0 });
+        dispatches.add(send);
+        dispatch = send;
+        renderSpy();
+        return <span>{state.count}</span>;
+      }
+
+      const container = document.createElement("div");
+      setup(<Counter />, container);
+
+      dispatch!({ type: "increment" });
+      await flushMicrotasks();
+      expect(renderSpy).toHaveBeenCalledTimes(2);
+
+      dispatch!({ type: "noop" });
+      await flushMicrotasks();
+      expect(renderSpy).toHaveBeenCalledTimes(2);
+      expect(dispatches.size).toBe(1);
+    });
+  });
+
+  describe("createContext / useContext", () => {
+    it("가장 가까운 Provider의 값을 읽고, Provider가 없으면 기본값을 사용한다", () => {
+      const ThemeContext = createContext("light");
+
+      function Label() {
+        const theme = useContext(ThemeContext);
+        return <span>{theme}</span>;
+      }
+
+      const container = document.createElement("div");
+      setup(
+        <div>
+          <Label />
+          <ThemeContext.Provider value="dark">
+            <Label />
+            <ThemeContext.Provider value="blue">
+              <Label />
+            </ThemeContext.Provider>
+          </ThemeContext.Provider>
+        </div>,
+        container,
+      );
+
+      expect([...container.querySelectorAll("span")].map((span) => span.textContent)).toEqual([
+        "light",
+        "dark",
+        "blue",
+      ]);
+    });
+
+    it("Provider의 값이 바뀌면 memo된 중간 컴포넌트를 다시 실행하지 않고 소비자만 갱신한다", async () => {
+      const CountContext = createContext(0);
+      const middleRender = vi.fn();
+      let increase: () => void;
+
+      function Consumer() {
+        const count = useContext(CountContext);
+        return <span>{count}</span>;
+      }
+
+      const Middle = memo(() => {
+        middleRender();
+        return <Consumer />;
+      });
+
+      function App() {
+        const [count, setCount] = useState(0);
+        increase = () => setCount((prev) => prev + 1);
+        return (
+          <CountContext.Provider value={count}>
+            <Middle />
+          </CountContext.Provider>
+        );
+      }
+
+      const container = document.createElement("div");
+      setup(<App />, container);
+      expect(container.textContent).toBe("0");
+
+      increase!();
+      await flushMicrotasks();
+
+      expect(container.textContent).toBe("1");
+      expect(middleRender).toHaveBeenCalledTimes(1);
+    });
+
+    it("memo로 감싼 소비자도 props가 같더라도 Provider의 값이 바뀌면 다시 렌더링된다", async () => {
+      const CountContext = createContext(0);
+      let setValue: (value: number) => void;
+
+      const Consumer = memo(() => <span>{useContext(CountContext)}</span>);
+
+      function App() {
+        const [value, set] = useState(0);
+        setValue = set;
+        return (
+          <CountContext.Provider value={value}>
+            <Consumer />
+          </CountContext.Provider>
+        );
+      }
+
+      const container = document.createElement("div");
+      setup(<App />, container);
+
+      setValue!(1);
+      await flushMicrotasks();
+      expect(container.textContent).toBe("1");
+
+      setValue!(2);
+      await flushMicrotasks();
+      expect(container.textContent).toBe("2");
+    });
+  });
+
+  describe("useLayoutEffect 훅", () => {
+    it("DOM 반영 직후 동기로 실행되고, useEffect보다 먼저 실행된다", async () => {
+      const logs: string[] = [];
+      const container = document.createElement("div");
+
+      function Sample() {
+        useEffect(() => {
+          logs.push("effect");
+        });
+        useLayoutEffect(() => {
+          logs.push(`layout:${container.querySelector("span")?.textContent}`);
+        });
+        return <span>mounted</span>;
+      }
+
+      setup(<Sample />, container);
+      expect(logs).toEqual(["layout:mounted"]);
+
+      await flushMicrotasks();
+      expect(logs).toEqual(["layout:mounted", "effect"]);
+    });
+
+    it("의존성이 변경될 때만 클린업 후 다시 실행된다", async () => {
+      const logs: string[] = [];
+      let setValue: (value: number) => void;
+      let forceUpdate: () => void;
+
+      function Sample() {
+        const [value, setState] = useState(0);
+        const [, setTick] = useState(0);
+        setValue = setState;
+        forceUpdate = () => setTick((tick) => tick + 1);
+
+        useLayoutEffect(() => {
+          logs.push(`run:${value}`);
+          return () => logs.push(`cleanup:${value}`);
+        }, [value]);
+        return <span>{value}</span>;
+      }
+
+      const container = document.createElement("div");
+      setup(<Sample />, container);
+
+      forceUpdate!();
+      await flushMicrotasks();
+      expect(logs).toEqual(["run:0"]);
+
+      setValue!(1);
+      await flushMicrotasks();
+      expect(logs).toEqual(["run:0", "cleanup:0", "run:1"]);
+    });
+  });
+});
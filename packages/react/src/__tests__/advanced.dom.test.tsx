@@ -0,0 +1,779 @@
+/** @jsx createElement */
+/** @jsxFrag Fragment */
+import { describe, expect, it, vi } from "vitest";
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { createElement, Fragment } from "../core";
+import {
+  createContext,
+  createPortal,
+  domOperations,
+  renderRoot,
+  setup,
+  useContext,
+  useState,
+  type RefObject,
+} from "../core";
+
+const flushMicrotasks = async () => await Promise.resolve();
+
+describe("DOM 처리 확장 > ", () => {
+  describe("ref prop", () => {
+    it("ref는 VNode의 props에서 분리되고 DOM 속성으로 설정되지 않는다", () => {
+      const ref = { current: null };
+      const vNode = <div ref={ref} id="box" />;
+
+      expect(vNode.ref).toBe(ref);
+      expect(vNode.props).toEqual({ id: "box" });
+
+      const container = document.createElement("div");
+      setup(vNode, container);
+      expect(container.querySelector("div")?.hasAttribute("ref")).toBe(false);
+    });
+
+    it("객체 ref는 마운트 시 DOM 노드를, 언마운트 시 null을 가진다", async () => {
+      const ref: RefObject<HTMLInputElement | null> = { current: null };
+      let toggle: () => void;
+
+      function Sample() {
+        const [visible, setVisible] = useState(true);
+        toggle = () => setVisible((prev) => !prev);
+        return <div>{visible && <input ref={ref} />}</div>;
+      }
+
+      const container = document.createElement("div");
+      setup(<Sample />, container);
+      expect(ref.current).toBe(container.querySelector("input"));
+
+      toggle!();
+      await flushMicrotasks();
+      expect(ref.current).toBeNull();
+    });
+
+    it("콜백 ref는 노드와 함께 호출되고, 반환한 클린업 함수는 해제 시 실행된다", async () => {
+      const cleanup = vi.fn();
+      const callbackRef = vi.fn(() => cleanup);
+      let toggle: () => void;
+
+      function Sample() {
+        const [visible, setVisible] = useState(true);
+        toggle = () => setVisible((prev) => !prev);
+        return <div>{visible && <span ref={callbackRef} />}</div>;
+      }
+
+      const container = document.createElement("div");
+      setup(<Sample />, container);
+      expect(callbackRef).toHaveBeenCalledWith(container.querySelector("span"));
+
+      toggle!();
+      await flushMicrotasks();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+      expect(callbackRef).toHaveBeenCalledTimes(1);
+    });
+
+    it("렌더링 간에 ref가 바뀌면 이전 ref를 해제하고 새 ref를 연결한다", async () => {
+      const first: RefObject<HTMLElement | null> = { current: null };
+      const second: RefObject<HTMLElement | null> = { current: null };
+      let swap: () => void;
+
+      function Sample() {
+        const [useFirst, setUseFirst] = useState(true);
+        swap = () => setUseFirst(false);
+        return <p ref={useFirst ? first : second}>text</p>;
+      }
+
+      const container = document.createElement("div");
+      setup(<Sample />, container);
+      const p = container.querySelector("p");
+      expect(first.current).toBe(p);
+
+      swap!();
+      await flushMicrotasks();
+      expect(first.current).toBeNull();
+      expect(second.current).toBe(p);
+    });
+  });
+
+  describe("createPortal", () => {
+    it("자식들을 다른 컨테이너에 렌더링하면서 부모 트리의 상태와 컨텍스트를 공유한다", async () => {
+      const ThemeContext = createContext("light");
+      const modalRoot = document.createElement("div");
+      let increase: () => void;
+      let close: () => void;
+
+      function Modal({ count }: { count: number }) {
+        const theme = useContext(ThemeContext);
+        return createPortal(<p className={theme}>modal {count}</p>, modalRoot);
+      }
+
+      function App() {
+        const [count, setCount] = useState(0);
+        const [open, setOpen] = useState(true);
+        increase = () => setCount((prev) => prev + 1);
+        close = () => setOpen(false);
+        return (
+          <ThemeContext.Provider value="dark">
+            <main>
+              <span>page</span>
+              {open && <Modal count={count} />}
+              <span>end</span>
+            </main>
+          </ThemeContext.Provider>
+        );
+      }
+
+      const container = document.createElement("div");
+      setup(<App />, container);
+
+      expect(container.innerHTML).toBe("<main><span>page</span><span>end</span></main>");
+      expect(modalRoot.innerHTML).toBe('<p class="dark">modal 0</p>');
+
+      increase!();
+      await flushMicrotasks();
+      expect(container.innerHTML).toBe("<main><span>page</span><span>end</span></main>");
+      expect(modalRoot.innerHTML).toBe('<p class="dark">modal 1</p>');
+
+      close!();
+      await flushMicrotasks();
+      expect(modalRoot.innerHTML).toBe("");
+      expect(container.innerHTML).toBe("<main><span>page</span><span>end</span></main>");
+    });
+
+    it("루트 밖의 포털 컨테이너에서도 나중에 등록되는 이벤트를 받고, 포털이 제거되면 리스너를 정리한다", async () => {
+      const handleAnimationEnd = vi.fn();
+      const handleClick = vi.fn();
+      const modalRoot = document.createElement("div");
+      let close: () => void;
+
+      function App() {
+        const [open, setOpen] = useState(true);
+        close = () => setOpen(false);
+        return (
+          <main>
+            {open &&
+              createPortal(
+                <p onAnimationEnd={handleAnimationEnd} onClick={handleClick}>
+                  modal
+                </p>,
+                modalRoot,
+              )}
+          </main>
+        );
+      }
+
+      const container = document.createElement("div");
+      document.body.appendChild(modalRoot);
+      setup(<App />, container);
+
+      const paragraph = modalRoot.querySelector("p")!;
+      paragraph.dispatchEvent(new Event("animationend", { bubbles: true }));
+      expect(handleAnimationEnd).toHaveBeenCalledTimes(1);
+
+      const removeEventListener = vi.spyOn(modalRoot, "removeEventListener");
+      close!();
+      await flushMicrotasks();
+      expect(removeEventListener).toHaveBeenCalledWith("click", expect.any(Function), true);
+      expect(removeEventListener).toHaveBeenCalledWith("animationend", expect.any(Function), false);
+
+      // 리스너가 제거된 컨테이너에서는 더 이상 핸들러가 실행되지 않음
+      modalRoot.appendChild(paragraph);
+      paragraph.click();
+      expect(handleClick).not.toHaveBeenCalled();
+
+      document.body.removeChild(modalRoot);
+    });
+  });
+
+  describe("이벤트 위임", () => {
+    it("요소마다 리스너를 붙이지 않고 루트 컨테이너에서 핸들러를 실행한다", () => {
+      const handleClick = vi.fn();
+      const container = document.createElement("div");
+      const containerSpy = vi.spyOn(container, "addEventListener");
+      const elementSpy = vi.spyOn(HTMLElement.prototype, "addEventListener");
+
+      setup(
+        <ul>
+          {[1, 2, 3].map((id) => (
+            <li key={id} onClick={() => handleClick(id)}>
+              item {id}
+            </li>
+          ))}
+        </ul>,
+        container,
+      );
+      const calledOnElements = elementSpy.mock.contexts.filter((target) => target !== container);
+      elementSpy.mockRestore();
+
+      expect(calledOnElements).toHaveLength(0);
+      expect(containerSpy).toHaveBeenCalledWith("click", expect.any(Function), false);
+
+      container.querySelectorAll("li")[1].click();
+      expect(handleClick).toHaveBeenCalledExactlyOnceWith(2);
+    });
+
+    it("React 이벤트 이름을 네이티브 이벤트 이름으로 변환한다", () => {
+      const logs: string[] = [];
+      const container = document.createElement("div");
+      setup(
+        <div id="outer" onMouseEnter={() => logs.push("enter:outer")} onBlur={() => logs.push("blur:outer")}>
+          <input
+            onDoubleClick={() => logs.push("dblclick")}
+            onFocus={() => logs.push("focus")}
+            onMouseEnter={() => logs.push("enter:input")}
+            onMouseLeave={() => logs.push("leave:input")}
+          />
+        </div>,
+        container,
+      );
+      const input = container.querySelector("input")!;
+
+      input.dispatchEvent(new MouseEvent("dblclick", { bubbles: true }));
+      input.dispatchEvent(new FocusEvent("focusin", { bubbles: true }));
+      input.dispatchEvent(new FocusEvent("focusout", { bubbles: true }));
+      // mouseenter/mouseleave는 버블링되지 않으므로 target 요소의 핸들러만 실행된다
+      input.dispatchEvent(new MouseEvent("mouseenter"));
+      input.dispatchEvent(new MouseEvent("mouseleave"));
+
+      expect(logs).toEqual(["dblclick", "focus", "blur:outer", "enter:input", "leave:input"]);
+    });
+
+    it("캡처 핸들러는 바깥에서 안쪽으로, 버블 핸들러는 안쪽에서 바깥으로 실행되고 currentTarget을 제공한다", () => {
+      const logs: string[] = [];
+      const log = (label: string) => (event: Event) =>
+        logs.push(`${label}:${(event.currentTarget as HTMLElement).tagName.toLowerCase()}`);
+      const container = document.createElement("div");
+      setup(
+        <section onClick={log("bubble")} onClickCapture={log("capture")}>
+          <p onClick={log("bubble")} onClickCapture={log("capture")}>
+            <button onClick={log("bubble")} onClickCapture={log("capture")}>
+              click
+            </button>
+          </p>
+        </section>,
+        container,
+      );
+
+      container.querySelector("button")!.click();
+
+      expect(logs).toEqual([
+        "capture:section",
+        "capture:p",
+        "capture:button",
+        "bubble:button",
+        "bubble:p",
+        "bubble:section",
+      ]);
+    });
+
+    it("이름이 Capture로 끝나는 onGotPointerCapture는 캡처 단계 핸들러가 아닌 gotpointercapture 이벤트의 핸들러다", () => {
+      const logs: string[] = [];
+      const container = document.createElement("div");
+      setup(
+        <div
+          onGotPointerCapture={() => logs.push("got:outer")}
+          onGotPointerCaptureCapture={() => logs.push("got:outer:capture")}
+        >
+          <button
+            onGotPointerCapture={() => logs.push("got:button")}
+            onLostPointerCapture={() => logs.push("lost:button")}
+          />
+        </div>,
+        container,
+      );
+      const button = container.querySelector("button")!;
+
+      button.dispatchEvent(new Event("gotpointercapture", { bubbles: true }));
+      button.dispatchEvent(new Event("lostpointercapture", { bubbles: true }));
+
+      expect(logs).toEqual(["got:outer:capture", "got:button", "got:outer", "lost:button"]);
+    });
+
+    it("stopPropagation을 호출하면 상위 컴포넌트의 핸들러가 실행되지 않는다", () => {
+      const handleOuter = vi.fn();
+      const handleInner = vi.fn((event: Event) => event.stopPropagation());
+
+      function Inner() {
+        return <button onClick={handleInner}>inner</button>;
+      }
+
+      const container = document.createElement("div");
+      setup(
+        <div onClick={handleOuter}>
+          <Inner />
+        </div>,
+        container,
+      );
+
+      container.querySelector("button")!.click();
+      expect(handleInner).toHaveBeenCalledTimes(1);
+      expect(handleOuter).not.toHaveBeenCalled();
+    });
+
+    it("포털 안에서 발생한 이벤트는 DOM 위치가 아닌 컴포넌트 트리를 따라 전파된다", () => {
+      const logs: string[] = [];
+      const modalRoot = document.createElement("div");
+
+      function Modal() {
+        return createPortal(<button onClick={() => logs.push("modal")}>close</button>, modalRoot);
+      }
+
+      const container = document.createElement("div");
+      setup(
+        <main onClick={() => logs.push("main")}>
+          <Modal />
+        </main>,
+        container,
+      );
+
+      modalRoot.querySelector("button")!.click();
+      expect(logs).toEqual(["modal", "main"]);
+    });
+
+    it("중첩된 루트에서 발생한 이벤트는 안쪽 루트와 바깥 루트에서 각각 디스패치된다", () => {
+      const logs: string[] = [];
+      const container = document.createElement("div");
+      setup(
+        <section onClickCapture={() => logs.push("outer:capture")} onClick={() => logs.push("outer:bubble")}>
+          <div id="inner-root" />
+        </section>,
+        container,
+      );
+
+      const innerContainer = container.querySelector<HTMLElement>("#inner-root")!;
+      setup(
+        <button onClickCapture={() => logs.push("inner:capture")} onClick={() => logs.push("inner:bubble")}>
+          inner
+        </button>,
+        innerContainer,
+      );
+
+      innerContainer.querySelector("button")!.click();
+      expect(logs).toEqual(["outer:capture", "inner:capture", "inner:bubble", "outer:bubble"]);
+    });
+
+    it("렌더링 간에 바뀐 핸들러와 제거된 핸들러를 반영한다", async () => {
+      const logs: string[] = [];
+      let next: () => void;
+
+      function Sample() {
+        const [step, setStep] = useState(0);
+        next = () => setStep((prev) => prev + 1);
+        const handleClick = step < 2 ? () => logs.push(`step-${step}`) : undefined;
+        return <button onClick={handleClick}>button</button>;
+      }
+
+      const container = document.createElement("div");
+      setup(<Sample />, container);
+      const button = container.querySelector("button")!;
+
+      button.click();
+      next!();
+      await flushMicrotasks();
+      button.click();
+      next!();
+      await flushMicrotasks();
+      button.click();
+
+      expect(logs).toEqual(["step-0", "step-1"]);
+    });
+  });
+
+  describe("제어 컴포넌트", () => {
+    const typeInto = (input: HTMLInputElement, value: string) => {
+      input.value = value;
+      input.dispatchEvent(new Event("input", { bubbles: true }));
+    };
+
+    it("텍스트 입력의 onChange는 키 입력마다 실행되고, 사용자가 입력한 뒤에도 value가 상태를 따른다", async () => {
+      const handleChange = vi.fn();
+      let reset: () => void;
+
+      function SearchBar() {
+        const [query, setQuery] = useState("");
+        reset = () => setQuery("");
+        return (
+          <input
+            value={query}
+            onChange={(event: Event) => {
+              handleChange((event.target as HTMLInputElement).value);
+              setQuery((event.target as HTMLInputElement).value);
+            }}
+          />
+        );
+      }
+
+      const container = document.createElement("div");
+      setup(<SearchBar />, container);
+      const input = container.querySelector("input")!;
+
+      typeInto(input, "a");
+      typeInto(input, "ab");
+      // 값이 바뀌지 않은 change 이벤트는 onChange를 다시 실행하지 않는다
+      input.dispatchEvent(new Event("change", { bubbles: true }));
+      expect(handleChange.mock.calls).toEqual([["a"], ["ab"]]);
+
+      await flushMicrotasks();
+      reset!();
+      await flushMicrotasks();
+      expect(input.value).toBe("");
+      expect(input.hasAttribute("value")).toBe(false);
+    });
+
+    it("핸들러에서 상태를 바꾸지 않으면 입력된 값을 props의 값으로 되돌린다", async () => {
+      const container = document.createElement("div");
+      setup(<input value="fixed" onChange={() => {}} />, container);
+      const input = container.querySelector("input")!;
+
+      typeInto(input, "fixed!");
+      await flushMicrotasks();
+      expect(input.value).toBe("fixed");
+    });
+
+    it("한 요소에 onInput과 onChange가 함께 있으면 입력마다 두 핸들러가 모두 실행된다", () => {
+      const logs: string[] = [];
+      const container = document.createElement("div");
+      setup(
+        <input
+          onInput={(event: Event) => logs.push(`input:${(event.target as HTMLInputElement).value}`)}
+          onChange={(event: Event) => logs.push(`change:${(event.target as HTMLInputElement).value}`)}
+        />,
+        container,
+      );
+      const input = container.querySelector("input")!;
+
+      typeInto(input, "a");
+      typeInto(input, "ab");
+      expect(logs).toEqual(["input:a", "change:a", "input:ab", "change:ab"]);
+    });
+
+    it("checked와 select의 value를 DOM 프로퍼티로 설정하고 상태와 일치시킨다", async () => {
+      let select: (value: string) => void;
+
+      function Cart() {
+        const [selected, setSelected] = useState(false);
+        const [sort, setSort] = useState("price");
+        select = setSort;
+        return (
+          <div>
+            <input type="checkbox" checked={selected} onChange={() => setSelected((prev) => !prev)} />
+            <input type="checkbox" checked={false} onChange={() => {}} />
+            <select value={sort} onChange={() => {}}>
+              <option value="name">name</option>
+              <option value="price">price</option>
+            </select>
+          </div>
+        );
+      }
+
+      // 체크박스의 change 이벤트는 문서에 연결된 요소에서만 발생한다
+      const container = document.createElement("div");
+      document.body.appendChild(container);
+      setup(<Cart />, container);
+      const [selectable, locked] = container.querySelectorAll("input");
+      const selectElement = container.querySelector("select")!;
+      expect(selectElement.value).toBe("price");
+
+      selectable.click();
+      locked.click();
+      await flushMicrotasks();
+      expect(selectable.checked).toBe(true);
+      expect(locked.checked).toBe(false);
+
+      select!("name");
+      await flushMicrotasks();
+      expect(selectElement.value).toBe("name");
+      container.remove();
+    });
+
+    it("defaultValue와 defaultChecked는 초기값만 설정하고 이후 입력을 덮어쓰지 않는다", async () => {
+      let rerender: () => void;
+
+      function Form() {
+        const [, setTick] = useState(0);
+        rerender = () => setTick((tick) => tick + 1);
+        return (
+          <form>
+            <input defaultValue="initial" />
+            <input type="checkbox" defaultChecked />
+          </form>
+        );
+      }
+
+      const container = document.createElement("div");
+      document.body.appendChild(container);
+      setup(<Form />, container);
+      const [text, checkbox] = container.querySelectorAll("input");
+      expect(text.value).toBe("initial");
+      expect(checkbox.checked).toBe(true);
+
+      typeInto(text, "edited");
+      checkbox.click();
+      rerender!();
+      await flushMicrotasks();
+      expect(text.value).toBe("edited");
+      expect(checkbox.checked).toBe(false);
+      container.remove();
+    });
+  });
+
+  describe("SVG / MathML 네임스페이스", () => {
+    it("svg 하위 요소는 SVG 네임스페이스로 생성되고, foreignObject 안에서는 HTML로 돌아간다", () => {
+      function Icon() {
+        return <path d="M0 0L10 10" />;
+      }
+
+      const container = document.createElement("div");
+      setup(
+        <svg viewBox="0 0 24 24">
+          <>
+            <Icon />
+          </>
+          <foreignObject>
+            <div>html</div>
+          </foreignObject>
+        </svg>,
+        container,
+      );
+
+      const svg = container.querySelector("svg")!;
+      expect(svg.namespaceURI).toBe("http://www.w3.org/2000/svg");
+      expect(container.querySelector("path")?.namespaceURI).toBe("http://www.w3.org/2000/svg");
+      expect(container.querySelector("foreignObject")?.namespaceURI).toBe("http://www.w3.org/2000/svg");
+      expect(container.querySelector("div")?.namespaceURI).toBe("http://www.w3.org/1999/xhtml");
+      expect(svg.getAttribute("viewBox")).toBe("0 0 24 24");
+    });
+
+    it("math 하위 요소는 MathML 네임스페이스로 생성된다", () => {
+      const container = document.createElement("div");
+      setup(
+        <math>
+          <mi>x</mi>
+        </math>,
+        container,
+      );
+
+      expect(container.querySelector("mi")?.namespaceURI).toBe("http://www.w3.org/1998/Math/MathML");
+    });
+
+    it("React 스타일의 속성 이름을 실제 속성 이름으로 변환한다", async () => {
+      let thicken: () => void;
+
+      function Icon() {
+        const [width, setWidth] = useState<number | null>(2);
+        thicken = () => setWidth(null);
+        return (
+          <svg>
+            <path strokeWidth={width} strokeLinecap="round" />
+            <use xlinkHref="#icon-cart" />
+          </svg>
+        );
+      }
+
+      const container = document.createElement("div");
+      setup(
+        <>
+          <label htmlFor="query">검색</label>
+          <Icon />
+        </>,
+        container,
+      );
+
+      const path = container.querySelector("path")!;
+      expect(container.querySelector("label")?.getAttribute("for")).toBe("query");
+      expect(path.getAttribute("stroke-width")).toBe("2");
+      expect(path.getAttribute("stroke-linecap")).toBe("round");
+      expect(path.hasAttribute("strokeWidth")).toBe(false);
+      expect(container.querySelector("use")?.getAttributeNS("http://www.w3.org/1999/xlink", "href")).toBe("#icon-cart");
+
+      thicken!();
+      await flushMicrotasks();
+      expect(path.hasAttribute("stroke-width")).toBe(false);
+    });
+  });
+
+  describe("dangerouslySetInnerHTML", () => {
+    it("HTML 문자열을 내용으로 설정하고, 값이 바뀌거나 자식으로 전환될 때 갱신한다", async () => {
+      let setDescription: (description: string | null) => void;
+
+      function ProductDetail() {
+        const [description, setState] = useState<string | null>("<p>첫 <b>설명</b></p>");
+        setDescription = setState;
+        return description === null ? (
+          <section>
+            <span>설명 없음</span>
+          </section>
+        ) : (
+          <section dangerouslySetInnerHTML={{ __html: description }} />
+        );
+      }
+
+      const container = document.createElement("div");
+      setup(<ProductDetail />, container);
+      const section = container.querySelector("section")!;
+      expect(section.innerHTML).toBe("<p>첫 <b>설명</b></p>");
+
+      setDescription!("<p>두 번째 설명</p>");
+      await flushMicrotasks();
+      expect(section.innerHTML).toBe("<p>두 번째 설명</p>");
+
+      setDescription!(null);
+      await flushMicrotasks();
+      expect(container.querySelector("section")).toBe(section);
+      expect(section.innerHTML).toBe("<span>설명 없음</span>");
+    });
+
+    it("자식과 함께 사용하면 에러를 던진다", () => {
+      const container = document.createElement("div");
+      expect(() =>
+        setup(
+          <div dangerouslySetInnerHTML={{ __html: "<p>html</p>" }}>
+            <p>child</p>
+          </div>,
+          container,
+        ),
+      ).toThrowError("Can only set one of `children` or `props.dangerouslySetInnerHTML`.");
+    });
+  });
+
+  describe("style", () => {
+    it("숫자 값에 px을 붙이되 단위 없는 속성은 그대로 두고, CSS 변수와 !important를 지원한다", () => {
+      const container = document.createElement("div");
+      setup(
+        <div
+          style={{
+            width: 100,
+            marginTop: 0,
+            opacity: 0.5,
+            zIndex: 10,
+            flex: 1,
+            "--accent": "red",
+            color: "blue !important",
+          }}
+        />,
+        container,
+      );
+
+      const { style } = container.querySelector("div")!;
+      expect(style.width).toBe("100px");
+      expect(style.marginTop).toBe("0px");
+      expect(style.opacity).toBe("0.5");
+      expect(style.zIndex).toBe("10");
+      expect(style.getPropertyValue("flex-grow")).toBe("1");
+      expect(style.getPropertyValue("--accent")).toBe("red");
+      expect(style.getPropertyValue("color")).toBe("blue");
+      expect(style.getPropertyPriority("color")).toBe("important");
+    });
+
+    it("렌더링 간에 문자열 스타일과 객체 스타일을 전환하고, 사라진 속성은 제거한다", async () => {
+      type Style = string | Record<string, string | number> | undefined;
+      let setStyle: (style: Style) => void;
+
+      function Box() {
+        const [style, setState] = useState<Style>("color: red; padding: 4px");
+        setStyle = setState;
+        return <div style={style} />;
+      }
+
+      const container = document.createElement("div");
+      setup(<Box />, container);
+      const div = container.querySelector("div")!;
+      expect(div.style.color).toBe("red");
+      expect(div.style.padding).toBe("4px");
+
+      setStyle!({ width: 50, "--gap": "8px" });
+      await flushMicrotasks();
+      expect(div.style.color).toBe("");
+      expect(div.style.padding).toBe("");
+      expect(div.style.width).toBe("50px");
+      expect(div.style.getPropertyValue("--gap")).toBe("8px");
+
+      setStyle!({ width: 60 });
+      await flushMicrotasks();
+      expect(div.style.width).toBe("60px");
+      expect(div.style.getPropertyValue("--gap")).toBe("");
+
+      setStyle!("margin: 2px");
+      await flushMicrotasks();
+      expect(div.getAttribute("style")).toBe("margin: 2px;");
+
+      setStyle!(undefined);
+      await flushMicrotasks();
+      expect(div.hasAttribute("style")).toBe(false);
+    });
+  });
+
+  describe("key 기반 재배치", () => {
+    const List = ({ items }: { items: number[] }) => (
+      <ul>
+        {items.map((item) => (
+          <li key={item}>{item}</li>
+        ))}
+      </ul>
+    );
+    const range = (length: number) => Array.from({ length }, (_, index) => index);
+
+    it("100개 목록의 마지막 항목을 맨 앞으로 옮기면 DOM 노드를 한 번만 이동한다", () => {
+      const container = document.createElement("div");
+      const items = range(100);
+      setup(<List items={items} />, container);
+      const nodes = [...container.querySelectorAll("li")];
+
+      domOperations.reset();
+      renderRoot(<List items={[99, ...items.slice(0, 99)]} />, container);
+
+      expect(domOperations.moves).toBe(1);
+      expect(domOperations.insertions).toBe(0);
+      expect(domOperations.removals).toBe(0);
+      expect([...container.querySelectorAll("li")]).toEqual([nodes[99], ...nodes.slice(0, 99)]);
+    });
+
+    it("순서가 유지되는 가장 긴 부분은 그대로 두고 나머지만 이동한다", () => {
+      const container = document.createElement("div");
+      setup(<List items={range(6)} />, container);
+
+      // 떨어진 두 항목 교환: 교환된 두 항목만 이동
+      domOperations.reset();
+      renderRoot(<List items={[0, 4, 2, 3, 1, 5]} />, container);
+      expect(domOperations.moves).toBe(2);
+      expect(container.textContent).toBe("042315");
+
+      // 역순: 하나를 제외한 모든 항목을 옮겨야 함
+      domOperations.reset();
+      renderRoot(<List items={[5, 1, 3, 2, 4, 0]} />, container);
+      expect(domOperations.moves).toBe(5);
+      expect(container.textContent).toBe("513240");
+
+      // 추가와 삭제가 섞여 있어도 이동은 순서가 바뀐 항목만
+      domOperations.reset();
+      renderRoot(<List items={[7, 5, 3, 2, 4, 6]} />, container);
+      expect(domOperations).toMatchObject({ insertions: 2, moves: 0, removals: 2 });
+      expect(container.textContent).toBe("753246");
+    });
+
+    it("이동하지 않은 항목의 포커스는 유지된다", () => {
+      const Inputs = ({ items }: { items: number[] }) => (
+        <div>
+          {items.map((item) => (
+            <input key={item} id={`input-${item}`} />
+          ))}
+        </div>
+      );
+
+      const container = document.createElement("div");
+      document.body.appendChild(container);
+      setup(<Inputs items={[0, 1, 2, 3]} />, container);
+      const input = container.querySelector<HTMLInputElement>("#input-1")!;
+      input.focus();
+
+      renderRoot(<Inputs items={[3, 0, 1, 2]} />, container);
+      expect(document.activeElement).toBe(input);
+      expect([...container.querySelectorAll("input")].map((element) => element.id)).toEqual([
+        "input-3",
+        "input-0",
+        "input-1",
+        "input-2",
+      ]);
+
+      document.body.removeChild(container);
+    });
+  });
+});
@@ -2,8 +2,9 @@
 /** @jsx createElement */
 /** @jsxFrag Fragment */
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { createElement, Fragment, setup, useState } from "../core";
-import { memo, deepMemo } from "../hocs";
+import { createElement, Fragment, setup, useState, type RefObject } from "../core";
+import { memo, deepMemo, forwardRef } from "../hocs";
+import { useImperativeHandle } from "../hooks";
 
 async function flushMicrotasks(): Promise<void> {
   await Promise.resolve();
@@ -59,6 +60,111 @@ describe("Chapter 2-2 심화과제: hoc 만들어보기", () => {
       await flushMicrotasks();
       expect(TestComponent).toHaveBeenCalledTimes(2);
     });
+
+    it("props가 같으면 하위 컴포넌트들도 다시 실행하지 않고, 자손의 상태 업데이트는 반영한다", async () => {
+      const renders: string[] = [];
+      let increase: () => void;
+      let rerender: () => void;
+
+      function Counter() {
+        const [count, setCount] = useState(0);
+        increase = () => setCount((prev) => prev + 1);
+        renders.push("counter");
+        return <span>{count}</span>;
+      }
+
+      function Row() {
+        renders.push("row");
+        return <p>row</p>;
+      }
+
+      const List = memo(({ label }: { label: string }) => {
+        renders.push("list");
+        return (
+          <div>
+            {label}
+            <Row />
+            <Counter />
+          </div>
+        );
+      });
+
+      function App() {
+        const [tick, setTick] = useState(0);
+        rerender = () => setTick((prev) => prev + 1);
+        return (
+          <section data-tick={tick}>
+            <List label="list" />
+          </section>
+        );
+      }
+
+      const container = document.createElement("div");
+      setup(<App />, container);
+      renders.length = 0;
+
+      rerender!();
+      await flushMicrotasks();
+      expect(container.querySelector("section")!.dataset.tick).toBe("1");
+      expect(renders).toEqual([]);
+
+      // 렌더링을 건너뛴 조상들 아래에 있더라도 상태가 바뀐 컴포넌트만 다시 실행됨
+      increase!();
+      await flushMicrotasks();
+      expect(container.querySelector("span")!.textContent).toBe("1");
+      expect(renders).toEqual(["counter"]);
+    });
+
+    it("props가 같더라도 자신의 상태가 바뀌면 다시 렌더링된다", async () => {
+      let toggle: () => void;
+
+      const Toggle = memo(() => {
+        const [on, setOn] = useState(false);
+        toggle = () => setOn((prev) => !prev);
+        return <button>{on ? "on" : "off"}</button>;
+      });
+
+      const container = document.createElement("div");
+      setup(<Toggle />, container);
+
+      toggle!();
+      await flushMicrotasks();
+      expect(container.textContent).toBe("on");
+    });
+
+    it("이전 렌더링과 같은 VNode는 memo 없이도 하위 트리의 렌더링을 건너뛴다", async () => {
+      const childRender = vi.fn();
+      let rerender: () => void;
+
+      function Child() {
+        childRender();
+        return <span>child</span>;
+      }
+
+      function Layout({ children }: { children?: any }) {
+        const [count, setCount] = useState(0);
+        rerender = () => setCount((prev) => prev + 1);
+        return (
+          <div>
+            {count}
+            {children}
+          </div>
+        );
+      }
+
+      const container = document.createElement("div");
+      setup(
+        <Layout>
+          <Child />
+        </Layout>,
+        container,
+      );
+
+      rerender!();
+      await flushMicrotasks();
+      expect(container.textContent).toBe("1child");
+      expect(childRender).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe("deepMemo HOC", () => {
@@ -169,4 +275,50 @@ describe("Chapter 2-2 심화과제: hoc 만들어보기", () => {
       expect(TestComponent).toHaveBeenCalledTimes(2);
     });
   });
+
+  describe("forwardRef HOC", () => {
+    it("부모가 전달한 ref를 내부 DOM 요소로 전달한다", () => {
+      const Input = forwardRef<HTMLInputElement, { placeholder: string }>((props, ref) => (
+        <input ref={ref} {...props} />
+      ));
+      const ref: RefObject<HTMLInputElement | null> = { current: null };
+
+      const container = document.createElement("div");
+      setup(<Input ref={ref} placeholder="검색" />, container);
+
+      const input = container.querySelector("input")!;
+      expect(ref.current).toBe(input);
+      expect(input.hasAttribute("ref")).toBe(false);
+      expect(input.getAttribute("placeholder")).toBe("검색");
+    });
+
+    it("useImperativeHandle로 정의한 핸들을 ref에 노출하고, memo와 함께 사용할 수 있다", async () => {
+      const open = vi.fn();
+      const Modal = memo(
+        forwardRef<{ open: () => void }, { title: string }>(function CartModal({ title }, ref) {
+          useImperativeHandle(ref, () => ({ open }), []);
+          return <div>{title}</div>;
+        }),
+      );
+      const ref: RefObject<{ open: () => void } | null> = { current: null };
+      let toggle: () => void;
+
+      function TestWrapper() {
+        const [visible, setVisible] = useState(true);
+        toggle = () => setVisible((prev) => !prev);
+        return visible ? <Modal ref={ref} title="장바구니" /> : null;
+      }
+
+      const container = document.createElement("div");
+      setup(<TestWrapper />, container);
+
+      expect(Modal.displayName).toBe("Memo(ForwardRef(CartModal))");
+      ref.current!.open();
+      expect(open).toHaveBeenCalledTimes(1);
+
+      toggle!();
+      await flushMicrotasks();
+      expect(ref.current).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,261 @@
+/** @jsx createElement */
+/** @jsxFrag Fragment */
+import { describe, expect, it, vi } from "vitest";
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { createElement, ErrorBoundary, Fragment, lazy, Suspense, useEffect, useState } from "../core";
+import { createRoot, hydrateRoot } from "../client";
+import { renderToReadableStream, renderToString } from "../server";
+
+const flushMicrotasks = async () => await Promise.resolve();
+
+describe("루트 API > ", () => {
+  describe("여러 개의 독립적인 루트", () => {
+    it("두 번째 루트를 렌더링해도 첫 번째 루트의 상태가 유지된다", async () => {
+      let increaseBadge: () => void;
+      let increaseApp: () => void;
+
+      function Badge() {
+        const [count, setCount] = useState(0);
+        increaseBadge = () => setCount((prev) => prev + 1);
+        return <span>badge {count}</span>;
+      }
+
+      function App() {
+        const [count, setCount] = useState(10);
+        increaseApp = () => setCount((prev) => prev + 1);
+        return <main>app {count}</main>;
+      }
+
+      const header = document.createElement("div");
+      const body = document.createElement("div");
+
+      createRoot(header).render(<Badge />);
+      increaseBadge!();
+      await flushMicrotasks();
+      expect(header.textContent).toBe("badge 1");
+
+      createRoot(body).render(<App />);
+      expect(header.textContent).toBe("badge 1");
+      expect(body.textContent).toBe("app 10");
+
+      increaseBadge!();
+      increaseApp!();
+      await flushMicrotasks();
+
+      expect(header.textContent).toBe("badge 2");
+      expect(body.textContent).toBe("app 11");
+    });
+  });
+
+  describe("root.render / root.unmount", () => {
+    it("같은 루트에 다시 render하면 타입이 같은 컴포넌트의 상태를 유지한다", async () => {
+      let increase: () => void;
+
+      function App({ theme }: { theme: string }) {
+        const [count, setCount] = useState(0);
+        increase = () => setCount((prev) => prev + 1);
+        return (
+          <div className={theme}>
+            <span>{count}</span>
+          </div>
+        );
+      }
+
+      const container = document.createElement("div");
+      const root = createRoot(container);
+      root.render(<App theme="light" />);
+      const div = container.firstChild;
+
+      increase!();
+      await flushMicrotasks();
+      expect(container.textContent).toBe("1");
+
+      root.render(<App theme="dark" />);
+      expect(container.firstChild).toBe(div);
+      expect(container.querySelector("div")?.className).toBe("dark");
+      expect(container.textContent).toBe("1");
+    });
+
+    it("unmount하면 모든 이펙트 클린업을 실행하고 컨테이너를 비운다", async () => {
+      const cleanups = vi.fn();
+
+      function Child({ name }: { name: string }) {
+        useEffect(() => () => cleanups(name), [name]);
+        return <span>{name}</span>;
+      }
+
+      function App() {
+        useEffect(() => () => cleanups("app"), []);
+        return (
+          <>
+            <Child name="a" />
+            <Child name="b" />
+          </>
+        );
+      }
+
+      const container = document.createElement("div");
+      const root = createRoot(container);
+      root.render(<App />);
+      await flushMicrotasks();
+
+      root.unmount();
+
+      expect(cleanups).toHaveBeenCalledTimes(3);
+      expect(cleanups.mock.calls.map(([name]) => name).sort()).toEqual(["a", "app", "b"]);
+      expect(container.childNodes.length).toBe(0);
+    });
+  });
+
+  describe("hydrateRoot", () => {
+    it("서버에서 렌더링된 DOM 노드를 다시 만들지 않고 재사용하며, 이벤트와 이펙트를 연결한다", async () => {
+      const effect = vi.fn();
+
+      function Counter({ label }: { label: string }) {
+        const [count, setCount] = useState(0);
+        useEffect(effect, []);
+        return (
+          <section>
+            <h1>{label}</h1>
+            <button onClick={() => setCount((prev) => prev + 1)}>count: {count}</button>
+          </section>
+        );
+      }
+
+      const container = document.createElement("div");
+      container.innerHTML = renderToString(<Counter label="상품 목록" />);
+      const section = container.querySelector("section");
+      const button = container.querySelector("button")!;
+      const countText = button.lastChild;
+
+      hydrateRoot(container, <Counter label="상품 목록" />);
+      expect(container.querySelector("section")).toBe(section);
+      expect(container.querySelector("button")).toBe(button);
+
+      await flushMicrotasks();
+      expect(effect).toHaveBeenCalledTimes(1);
+
+      button.click();
+      await flushMicrotasks();
+      expect(button.innerHTML).toBe("count: <!-- -->1");
+      expect(button.lastChild).toBe(countText);
+    });
+
+    it("서버 HTML과 일치하지 않으면 경고하고, 일치하지 않는 하위 트리만 클라이언트에서 새로 렌더링한다", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const container = document.createElement("div");
+      container.innerHTML = '<main><p class="old">server</p><span>stale</span><footer>footer</footer></main>';
+      const footer = container.querySelector("footer");
+
+      hydrateRoot(
+        container,
+        <main>
+          <p className="new">client</p>
+          <strong>fresh</strong>
+          <footer>footer</footer>
+        </main>,
+      );
+      const messages = warn.mock.calls.map(([message]) => message);
+      warn.mockRestore();
+
+      expect(container.innerHTML).toBe(
+        '<main><p class="new">client</p><strong>fresh</strong><footer>footer</footer></main>',
+      );
+      expect(container.querySelector("footer")).toBe(footer);
+      expect(messages).toHaveLength(3);
+      expect(messages[0]).toContain("prop `className` did not match");
+      expect(messages[1]).toContain("text content did not match");
+      expect(messages[2]).toContain("expected server HTML to contain <strong>");
+    });
+
+    it("하이드레이션 중 경계가 에러를 잡으면 버려진 하위 트리가 재사용하던 서버 노드를 fallback으로 교체한다", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const Broken = () => {
+        throw new Error("broken");
+      };
+
+      const container = document.createElement("div");
+      container.innerHTML = "<div><b>x</b></div>";
+      hydrateRoot(
+        container,
+        <ErrorBoundary fallback={<p>fb</p>}>
+          <div>
+            <b>x</b>
+            <Broken />
+          </div>
+        </ErrorBoundary>,
+      );
+      warn.mockRestore();
+
+      expect(container.innerHTML).toBe("<p>fb</p>");
+    });
+
+    it("하이드레이션 중 잡히지 않은 에러가 발생하면 서버 HTML을 변경하지 않는다", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const Broken = () => {
+        throw new Error("broken");
+      };
+
+      const container = document.createElement("div");
+      container.innerHTML = "<main><span>stale</span><p>server</p></main>";
+      expect(() =>
+        hydrateRoot(
+          container,
+          <main>
+            <strong>fresh</strong>
+            <p>client</p>
+            <Broken />
+          </main>,
+        ),
+      ).toThrow("broken");
+      warn.mockRestore();
+
+      expect(container.innerHTML).toBe("<main><span>stale</span><p>server</p></main>");
+    });
+
+    it("스트리밍된 HTML의 스크립트가 fallback을 내용으로 교체하고, 교체된 DOM을 하이드레이션한다", async () => {
+      let resolvePage!: () => void;
+      const Page = lazy(
+        () =>
+          new Promise<{ default: () => ReturnType<typeof createElement> }>(
+            (resolve) => (resolvePage = () => resolve({ default: () => <article>page</article> })),
+          ),
+      );
+      const App = () => (
+        <main>
+          <Suspense fallback={<p>loading</p>}>
+            <h1>title</h1>
+            <Page />
+          </Suspense>
+          <footer>footer</footer>
+        </main>
+      );
+
+      const reader = renderToReadableStream(<App />).getReader();
+      const decoder = new TextDecoder();
+      const container = document.createElement("div");
+      document.body.appendChild(container);
+
+      container.innerHTML = decoder.decode((await reader.read()).value);
+      expect(container.textContent).toBe("loadingfooter");
+
+      resolvePage();
+      const boundary = decoder.decode((await reader.read()).value);
+      const [, content, script] = boundary.match(/^(.*)<script>(.*)<\/script>$/)!;
+      container.insertAdjacentHTML("beforeend", content);
+      // 브라우저에서 인라인 스크립트가 실행되는 것처럼 전역 스코프에서 실행합니다
+      (0, eval)(script);
+
+      const footer = container.querySelector("footer");
+      expect(container.innerHTML).toBe(
+        "<main><!--$--><h1>title</h1><article>page</article><!--/$--><footer>footer</footer></main>",
+      );
+
+      hydrateRoot(container, <App />);
+      expect(container.querySelector("footer")).toBe(footer);
+      expect(container.querySelector("main")!.textContent).toBe("titlepagefooter");
+      container.remove();
+    });
+  });
+});
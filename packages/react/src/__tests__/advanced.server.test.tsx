@@ -0,0 +1,244 @@
+// @vitest-environment node
+/** @jsx createElement */
+/** @jsxFrag Fragment */
+import { describe, expect, it, vi } from "vitest";
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { createElement, Fragment } from "../core";
+import { createContext, lazy, Suspense, useContext, useEffect, useLayoutEffect, useState, type VNode } from "../core";
+import { useMemo } from "../hooks";
+import { renderToReadableStream, renderToStaticMarkup, renderToString } from "../server";
+
+const readChunks = async (stream: ReadableStream<Uint8Array>): Promise<string[]> => {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  const chunks: string[] = [];
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    chunks.push(decoder.decode(result.value));
+  }
+  return chunks;
+};
+
+describe("서버 렌더링 > ", () => {
+  it("jsdom 없이 컴포넌트를 초기 상태로 실행하고, 이펙트는 실행하지 않는다", () => {
+    const effect = vi.fn();
+    const ThemeContext = createContext("light");
+
+    function Price({ value }: { value: number }) {
+      const [currency] = useState(() => "원");
+      const formatted = useMemo(() => value.toLocaleString("ko-KR"), [value]);
+      const theme = useContext(ThemeContext);
+      useEffect(effect, []);
+      useLayoutEffect(effect, []);
+      return (
+        <strong className={theme}>
+          {formatted}
+          {currency}
+        </strong>
+      );
+    }
+
+    const html = renderToString(
+      <ThemeContext.Provider value="dark">
+        <Price value={12000} />
+      </ThemeContext.Provider>,
+    );
+
+    expect(typeof document).toBe("undefined");
+    expect(html).toBe('<strong class="dark">12,000<!-- -->원</strong>');
+    expect(effect).not.toHaveBeenCalled();
+  });
+
+  it("텍스트와 속성 값을 이스케이프하고, 이벤트 핸들러는 출력하지 않는다", () => {
+    const html = renderToStaticMarkup(
+      <a href={'/search?q="<script>"&page=1'} title="Tom's" onClick={() => {}}>
+        {"<b>bold</b> & more"}
+      </a>,
+    );
+
+    expect(html).toBe(
+      '<a href="/search?q=&quot;&lt;script&gt;&quot;&amp;page=1" title="Tom&#x27;s">&lt;b&gt;bold&lt;/b&gt; &amp; more</a>',
+    );
+  });
+
+  it("HTML 속성 이름으로 안전하지 않은 props는 출력하지 않는다", () => {
+    const props = {
+      "data-id": "1",
+      "xlink:href": "#icon",
+      'x" onmouseover="alert(1)': "",
+      "><script>alert(1)</script": "",
+      "aria label": "spaced",
+    };
+    const html = renderToStaticMarkup(<div {...props} />);
+
+    expect(html).toBe('<div data-id="1" xlink:href="#icon"></div>');
+  });
+
+  it("style, className, boolean 속성과 폼 요소의 값을 DOM에 적용하는 것과 같은 규칙으로 직렬화한다", () => {
+    const html = renderToStaticMarkup(
+      <form className="search">
+        <input value="노트북" disabled readOnly={false} style={{ width: 100, zIndex: 2, "--accent": "red" }} />
+        <input type="checkbox" defaultChecked />
+        <select value="price">
+          <option value="name">이름순</option>
+          <option value="price">가격순</option>
+        </select>
+        <textarea value="메모" />
+        <svg viewBox="0 0 24 24">
+          <path strokeWidth={2} />
+        </svg>
+      </form>,
+    );
+
+    expect(html).toBe(
+      '<form class="search">' +
+        '<input value="노트북" disabled="" style="width:100px;z-index:2;--accent:red">' +
+        '<input type="checkbox" checked="">' +
+        '<select><option value="name">이름순</option><option value="price" selected="">가격순</option></select>' +
+        "<textarea>메모</textarea>" +
+        '<svg viewBox="0 0 24 24"><path stroke-width="2"></path></svg>' +
+        "</form>",
+    );
+  });
+
+  it("Fragment와 인접한 텍스트를 처리하고, renderToStaticMarkup은 구분 주석을 넣지 않는다", () => {
+    function Greeting({ name }: { name: string }) {
+      return (
+        <>
+          안녕하세요, {name}님
+          <br />
+        </>
+      );
+    }
+
+    expect(renderToString(<Greeting name="항해" />)).toBe("안녕하세요, <!-- -->항해<!-- -->님<br>");
+    expect(renderToStaticMarkup(<Greeting name="항해" />)).toBe("안녕하세요, 항해님<br>");
+  });
+
+  it("불러오는 중인 lazy 컴포넌트는 Suspense의 fallback으로 렌더링한다", () => {
+    const Page = lazy(() => new Promise<{ default: () => null }>(() => {}));
+
+    const html = renderToString(
+      <main>
+        <Suspense fallback={<p>loading</p>}>
+          <h1>title</h1>
+          <Page />
+        </Suspense>
+      </main>,
+    );
+
+    expect(html).toBe("<main><p>loading</p></main>");
+  });
+
+  describe("renderToReadableStream", () => {
+    it("suspend된 경계가 없으면 전체 HTML을 하나의 조각으로 보내고 스트림을 닫는다", async () => {
+      const chunks = await readChunks(
+        renderToReadableStream(
+          <p>
+            {"a"}
+            {"b"}
+          </p>,
+        ),
+      );
+
+      expect(chunks).toEqual(["<p>a<!-- -->b</p>"]);
+    });
+
+    it("shell을 먼저 보내고, 경계가 준비되면 내용과 fallback을 교체하는 스크립트를 이어서 보낸다", async () => {
+      let resolvePage!: (module: { default: () => VNode }) => void;
+      const Page = lazy(() => new Promise<{ default: () => VNode }>((resolve) => (resolvePage = resolve)));
+      const ThemeContext = createContext("light");
+      const Title = () => <h1>{useContext(ThemeContext)}</h1>;
+
+      const reader = renderToReadableStream(
+        <ThemeContext.Provider value="dark">
+          <main>
+            <Suspense fallback={<p>loading</p>}>
+              <Title />
+              <Page />
+            </Suspense>
+          </main>
+        </ThemeContext.Provider>,
+      ).getReader();
+      const decoder = new TextDecoder();
+
+      const shell = await reader.read();
+      expect(decoder.decode(shell.value)).toBe(
+        '<main><!--$?--><template id="B:0"></template><p>loading</p><!--/$--></main>',
+      );
+
+      resolvePage({ default: () => <article>page</article> });
+      const boundary = decoder.decode((await reader.read()).value);
+      expect(boundary).toMatch(/^<div hidden id="S:0"><h1>dark<\/h1><article>page<\/article><\/div><script>/);
+      expect(boundary).toContain('$RC("B:0","S:0")</script>');
+      expect((await reader.read()).done).toBe(true);
+    });
+
+    it("경계의 내용이 다시 suspend되면 중첩된 경계로 이어서 보내고, 함수 정의는 한 번만 보낸다", async () => {
+      let resolveOuter!: () => void;
+      let resolveInner!: () => void;
+      const outer = new Promise<void>((resolve) => (resolveOuter = resolve));
+      const inner = new Promise<void>((resolve) => (resolveInner = resolve));
+      const ready = new Set<Promise<void>>();
+      outer.then(() => ready.add(outer));
+      inner.then(() => ready.add(inner));
+
+      const Wait = ({ promise, label }: { promise: Promise<void>; label: string }) => {
+        if (!ready.has(promise)) {
+          throw promise;
+        }
+        return <span>{label}</span>;
+      };
+
+      const reader = renderToReadableStream(
+        <Suspense fallback={<>outer loading</>}>
+          <Wait promise={outer} label="outer" />
+          <Suspense fallback={<>inner loading</>}>
+            <Wait promise={inner} label="inner" />
+          </Suspense>
+        </Suspense>,
+      ).getReader();
+      const decoder = new TextDecoder();
+      const next = async () => decoder.decode((await reader.read()).value);
+
+      expect(await next()).toBe('<!--$?--><template id="B:0"></template>outer loading<!--/$-->');
+
+      resolveOuter();
+      const outerChunk = await next();
+      expect(outerChunk).toMatch(
+        /^<div hidden id="S:0"><span>outer<\/span><!--\$\?--><template id="B:1"><\/template>inner loading<!--\/\$--><\/div>/,
+      );
+      expect(outerChunk).toContain("function $RC");
+
+      resolveInner();
+      expect(await next()).toBe('<div hidden id="S:1"><span>inner</span></div><script>$RC("B:1","S:1")</script>');
+      expect((await reader.read()).done).toBe(true);
+    });
+
+    it("스트림이 취소되면 이후에 완료된 경계는 렌더링하거나 전송하지 않는다", async () => {
+      let resolvePage!: (module: { default: () => VNode }) => void;
+      const Page = lazy(() => new Promise<{ default: () => VNode }>((resolve) => (resolvePage = resolve)));
+      const renderPage = vi.fn(() => <article>page</article>);
+
+      const stream = renderToReadableStream(
+        <Suspense fallback={<p>loading</p>}>
+          <Page />
+        </Suspense>,
+      );
+      const reader = stream.getReader();
+      await reader.read();
+      await reader.cancel();
+
+      resolvePage({ default: renderPage });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(renderPage).not.toHaveBeenCalled();
+    });
+
+    it("shell을 렌더링하는 중 에러가 발생하면 스트림이 에러 상태가 된다", async () => {
+      const Broken = () => {
+        throw new Error("broken");
+      };
+
+      await expect(readChunks(renderToReadableStream(<Broken />))).rejects.toThrow("broken");
+    });
+  });
+});
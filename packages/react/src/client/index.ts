@@ -1,7 +1,17 @@
-import { setup, type VNode } from "../core";
+import { hydrate, renderRoot, unmountRoot, type VNode } from "../core";
 
 export const createRoot = (rootElement: HTMLElement) => {
   return {
-    render: (root: VNode) => setup(root, rootElement),
+    render: (root: VNode) => renderRoot(root, rootElement),
+    unmount: () => unmountRoot(rootElement),
   };
 };
+
+/**
+ * 서버에서 렌더링된 HTML을 재사용하여 루트를 생성합니다.
+ * 이후의 렌더링과 언마운트는 createRoot로 만든 루트와 같습니다.
+ */
+export const hydrateRoot = (rootElement: HTMLElement, root: VNode) => {
+  hydrate(root, rootElement);
+  return createRoot(rootElement);
+};
@@ -0,0 +1,114 @@
+import { Namespaces } from "./constants";
+
+/**
+ * 이름이 다르거나 네임스페이스가 필요한 속성들의 매핑 테이블입니다.
+ */
+const attributeNameMap: Record<string, { name: string; namespace?: string }> = {
+  htmlFor: { name: "for" },
+  httpEquiv: { name: "http-equiv" },
+  acceptCharset: { name: "accept-charset" },
+  xlinkHref: { name: "xlink:href", namespace: Namespaces.XLINK },
+  xlinkTitle: { name: "xlink:title", namespace: Namespaces.XLINK },
+  xlinkShow: { name: "xlink:show", namespace: Namespaces.XLINK },
+  xlinkActuate: { name: "xlink:actuate", namespace: Namespaces.XLINK },
+  xlinkRole: { name: "xlink:role", namespace: Namespaces.XLINK },
+  xlinkArcrole: { name: "xlink:arcrole", namespace: Namespaces.XLINK },
+  xlinkType: { name: "xlink:type", namespace: Namespaces.XLINK },
+  xmlLang: { name: "xml:lang", namespace: Namespaces.XML },
+  xmlSpace: { name: "xml:space", namespace: Namespaces.XML },
+  xmlBase: { name: "xml:base", namespace: Namespaces.XML },
+};
+
+/**
+ * React에서 camelCase로 쓰지만 실제로는 하이픈으로 연결된 SVG 속성들입니다. (strokeWidth -> stroke-width)
+ * viewBox, preserveAspectRatio처럼 원래 camelCase인 속성은 그대로 사용합니다.
+ */
+const hyphenatedAttributes = [
+  "alignmentBaseline",
+  "baselineShift",
+  "clipPath",
+  "clipRule",
+  "colorInterpolation",
+  "colorInterpolationFilters",
+  "dominantBaseline",
+  "enableBackground",
+  "fillOpacity",
+  "fillRule",
+  "floodColor",
+  "floodOpacity",
+  "fontFamily",
+  "fontSize",
+  "fontSizeAdjust",
+  "fontStretch",
+  "fontStyle",
+  "fontVariant",
+  "fontWeight",
+  "glyphOrientationHorizontal",
+  "glyphOrientationVertical",
+  "imageRendering",
+  "letterSpacing",
+  "lightingColor",
+  "markerEnd",
+  "markerMid",
+  "markerStart",
+  "overlinePosition",
+  "overlineThickness",
+  "paintOrder",
+  "pointerEvents",
+  "shapeRendering",
+  "stopColor",
+  "stopOpacity",
+  "strikethroughPosition",
+  "strikethroughThickness",
+  "strokeDasharray",
+  "strokeDashoffset",
+  "strokeLinecap",
+  "strokeLinejoin",
+  "strokeMiterlimit",
+  "strokeOpacity",
+  "strokeWidth",
+  "textAnchor",
+  "textDecoration",
+  "textRendering",
+  "transformOrigin",
+  "underlinePosition",
+  "underlineThickness",
+  "unicodeBidi",
+  "vectorEffect",
+  "wordSpacing",
+  "writingMode",
+];
+
+for (const key of hyphenatedAttributes) {
+  attributeNameMap[key] = { name: key.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`) };
+}
+
+/**
+ * prop 이름에 해당하는 실제 속성 이름을 반환합니다. (strokeWidth -> stroke-width)
+ */
+export const getAttributeName = (key: string): string => attributeNameMap[key]?.name ?? key;
+
+/**
+ * prop 이름을 실제 속성 이름으로 변환하여 설정합니다.
+ * xlink:href처럼 네임스페이스가 있는 속성은 setAttributeNS를 사용합니다.
+ */
+export const setDomAttribute = (dom: Element, key: string, value: string): void => {
+  const attribute = attributeNameMap[key];
+  if (attribute?.namespace) {
+    dom.setAttributeNS(attribute.namespace, attribute.name, value);
+    return;
+  }
+  dom.setAttribute(attribute?.name ?? key, value);
+};
+
+/**
+ * prop 이름에 해당하는 속성을 제거합니다.
+ */
+export const removeDomAttribute = (dom: Element, key: string): void => {
+  const attribute = attributeNameMap[key];
+  if (attribute?.namespace) {
+    dom.removeAttributeNS(attribute.namespace, attribute.name.split(":")[1]);
+    return;
+  }
+  dom.removeAttribute(attribute?.name ?? key);
+};
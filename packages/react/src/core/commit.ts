@@ -0,0 +1,297 @@
+import { context } from "./context";
+import { EffectTypes, HookTypes, NodeTypes } from "./constants";
+import { getDomNodes, insertInstance, removeInstance, setDomProps, updateDomProps } from "./dom";
+import { finishInstances, getHostParentDom } from "./reconciler";
+import { resetWork } from "./render";
+import { cleanupUnusedHooks } from "./hooks";
+import { attachRef, detachRef } from "./refs";
+import { listenToPortalContainer, unlistenToPortalContainer } from "./events";
+import { syncSelectValue } from "./controlled";
+import { commitCapturedErrors, dispatchErrorToBoundary } from "./errorBoundary";
+import { commitProviders } from "./createContext";
+import { commitSuspended } from "./suspense";
+import { collectUnclaimedNodes, isHydrating, stopHydration } from "./hydration";
+import { enqueue } from "../utils";
+import type { CommitEffect, Context, EffectHook, Instance, QueuedEffect } from "./types";
+
+/**
+ * 인스턴스의 최상위 DOM 노드들 중 부모 DOM에 이미 삽입되어 있는 첫 번째 노드를 찾습니다.
+ */
+const getFirstPlacedDom = (instance: Instance, parentDom: Node): HTMLElement | Text | null =>
+  getDomNodes(instance).find((dom) => dom.parentNode === parentDom) ?? null;
+
+/**
+ * 인스턴스 다음에 오는 형제들 중 이미 제자리에 있는 첫 번째 DOM 노드를 찾습니다.
+ * FRAGMENT나 COMPONENT처럼 자신의 DOM이 없는 부모라면 부모의 다음 형제들까지 거슬러 올라가며 찾습니다.
+ */
+const getHostSibling = (instance: Instance, parentDom: Node): HTMLElement | Text | null => {
+  for (let current = instance; current.parent; current = current.parent) {
+    const siblings = current.parent.children;
+    for (let i = siblings.indexOf(current) + 1; i < siblings.length; i++) {
+      const dom = siblings[i] && getFirstPlacedDom(siblings[i]!, parentDom);
+      if (dom) {
+        return dom;
+      }
+    }
+    if (current.parent.kind === NodeTypes.HOST || current.parent.kind === NodeTypes.PORTAL) {
+      return null;
+    }
+  }
+  return null;
+};
+
+/**
+ * 새로 생성되었거나 위치가 바뀐 인스턴스의 DOM 노드들을 제자리에 삽입합니다.
+ * 새 포털은 대상 컨테이너에 이벤트 리스너를 등록하고 자식들을 컨테이너에 삽입합니다.
+ */
+const commitPlacement = (instance: Instance): void => {
+  if (instance.kind === NodeTypes.PORTAL) {
+    const container = instance.node.props.container;
+    // 포털 컨테이너에서도 이벤트를 받아 인스턴스 트리를 따라 전파할 수 있도록 리스너를 등록
+    listenToPortalContainer(container);
+    instance.children.forEach((child) => insertInstance(container, child));
+    return;
+  }
+
+  const parentDom = getHostParentDom(instance.parent ?? null);
+  insertInstance(parentDom, instance, getHostSibling(instance, parentDom));
+};
+
+/**
+ * HOST 요소의 props 변경이나 TEXT 노드의 내용 변경을 DOM에 반영합니다.
+ */
+const commitUpdate = (instance: Instance, prevProps: Instance["node"]["props"]): void => {
+  const { props } = instance.node;
+
+  if (instance.kind === NodeTypes.TEXT) {
+    (instance.dom as Text).nodeValue = props?.nodeValue ?? "";
+    return;
+  }
+
+  updateDomProps(instance.dom as HTMLElement, prevProps, props);
+};
+
+/**
+ * 재사용한 서버 렌더링 요소에서 대응되지 않은 자식 노드들을 제거하고 props를 반영합니다.
+ * 자식들의 하이드레이션이 끝난 뒤에 기록되므로, 새로 만든 자식 노드들은 이미 제자리에 삽입되어 있습니다.
+ */
+const commitHydration = (instance: Instance, unclaimed: ChildNode[]): void => {
+  const dom = instance.dom as HTMLElement;
+  const { props } = instance.node;
+
+  unclaimed.forEach((node) => node.remove());
+  setDomProps(dom, props);
+  if (dom instanceof HTMLSelectElement) {
+    syncSelectValue(dom, props.value ?? props.defaultValue);
+  }
+};
+
+/**
+ * 렌더 단계에서 기록된 DOM 변경을 기록된 순서대로 반영합니다.
+ * 부모의 작업이 자손들보다 먼저 기록되므로, 부모의 props 변경(innerHTML 등)이 먼저 반영되고
+ * 각 삽입은 이미 제자리에 놓인 노드들을 기준으로 위치를 계산합니다.
+ */
+const commitMutationEffects = (effectList: CommitEffect[]): void => {
+  for (const effect of effectList) {
+    switch (effect.type) {
+      case EffectTypes.DELETION:
+        unmount(effect.instance);
+        break;
+      case EffectTypes.PLACEMENT:
+        commitPlacement(effect.instance);
+        break;
+      case EffectTypes.UPDATE:
+        commitUpdate(effect.instance, effect.prevProps);
+        break;
+      case EffectTypes.HYDRATION:
+        commitHydration(effect.instance, effect.unclaimed);
+        break;
+      case EffectTypes.REF:
+        // ref가 바뀌었으면 이전 ref를 먼저 해제
+        if (effect.prevRef) {
+          detachRef(effect.instance, effect.prevRef);
+        }
+        break;
+    }
+  }
+
+  // select의 value는 option 자식들의 삽입과 변경이 모두 반영된 뒤에 적용
+  for (const effect of effectList) {
+    if (effect.type === EffectTypes.UPDATE && effect.instance.dom instanceof HTMLSelectElement) {
+      syncSelectValue(effect.instance.dom, effect.instance.node.props.value);
+    }
+  }
+};
+
+/**
+ * DOM 변경이 모두 끝난 뒤 ref에 DOM 노드를 연결합니다.
+ * 레이아웃 이펙트에서 ref로 DOM에 접근할 수 있도록 레이아웃 이펙트보다 먼저 실행됩니다.
+ */
+const commitAttachRefs = (effectList: CommitEffect[]): void => {
+  for (const effect of effectList) {
+    if (effect.type === EffectTypes.REF) {
+      attachRef(effect.instance);
+    }
+  }
+};
+
+/**
+ * 렌더링이 끝난 트리를 커밋합니다.
+ * 렌더 단계에서 계산된 값을 인스턴스에 반영하고, 기록된 DOM 변경을 한 번에 적용한 뒤 ref와 이펙트를 처리합니다.
+ * 커밋은 중단되지 않으므로, 화면에는 이전 트리나 새 트리 중 하나만 나타납니다.
+ */
+export const commitRoot = (): void => {
+  const { work } = context;
+  const { effectList, fromRoot, scopes, includedUpdates, providers, captured } = work;
+
+  // 1. 렌더 단계에서 계산된 값을 인스턴스에 반영하고 새 트리를 루트에 연결
+  finishInstances(work.completed);
+  if (work.root) {
+    work.root.parent = null;
+  }
+  context.root.instance = work.root;
+  resetWork();
+
+  // 이번 렌더링에 반영된 업데이트들은 다음 렌더링부터 기준 상태에 합쳐집니다
+  includedUpdates.forEach((update) => {
+    update.committed = true;
+  });
+  commitProviders(providers);
+  commitCapturedErrors(captured);
+  commitSuspended(captured);
+
+  // 2. 기록된 DOM 변경을 순서대로 반영
+  commitMutationEffects(effectList);
+
+  // 하이드레이션 중이었다면 루트에 대응되지 않은 서버 렌더링 노드를 정리하고 하이드레이션을 마칩니다
+  if (isHydrating()) {
+    collectUnclaimedNodes(context.root.container!).forEach((node) => node.remove());
+    stopHydration();
+  }
+
+  // 3. 사용되지 않은 훅들을 정리
+  // visited에 포함되지 않은 경로의 훅들은 더 이상 사용되지 않으므로 정리 (렌더링한 하위 트리 안에서만)
+  cleanupUnusedHooks(fromRoot ? undefined : scopes.map(({ path }) => path));
+  commitEffectDeps(context.effects.layoutQueue);
+  commitEffectDeps(context.effects.queue);
+
+  // 4. ref에 DOM 노드를 연결합니다
+  commitAttachRefs(effectList);
+
+  // 5. 레이아웃 이펙트를 실행합니다 (DOM 반영 직후 동기로 실행)
+  // 브라우저가 화면을 그리기 전에 레이아웃을 측정하고 DOM을 조정할 수 있도록 바로 실행
+  const layoutEffectsToRun = [...context.effects.layoutQueue];
+  context.effects.layoutQueue = [];
+  runEffects(context, layoutEffectsToRun);
+
+  // 6. 이펙트 실행을 예약합니다 (렌더링 후 비동기로 실행)
+  // DOM 업데이트가 완전히 끝난 후 이펙트가 실행되도록 마이크로태스크 큐에 추가
+  const effectsToRun = [...context.effects.queue];
+  context.effects.queue = [];
+
+  if (effectsToRun.length > 0) {
+    // 이펙트는 현재 렌더링이 끝난 뒤에 실행되므로 이 루트의 컨텍스트를 캡처해 둡니다
+    const rootContext = context;
+    enqueue(() => runEffects(rootContext, effectsToRun));
+  }
+
+  // 7. 렌더링 도중에 예약된 업데이트가 있으면 다시 렌더링합니다
+  if (work.rerender) {
+    work.rerender = false;
+    context.scheduleRender?.();
+  }
+};
+
+/**
+ * 예약된 이펙트들의 의존성을 훅에 기록합니다.
+ * 다음 렌더링은 버려진 렌더링이 아니라 마지막으로 커밋된 의존성과 비교하여 이펙트를 예약합니다.
+ */
+const commitEffectDeps = (effects: QueuedEffect[]): void => {
+  for (const { path, cursor, deps } of effects) {
+    const effectHook = context.hooks.state.get(path)?.[cursor] as EffectHook | undefined;
+    if (effectHook?.kind === HookTypes.EFFECT) {
+      effectHook.deps = deps;
+    }
+  }
+};
+
+/**
+ * 예약된 이펙트들을 순서대로 실행합니다.
+ * 이전 클린업이 있으면 먼저 실행한 뒤 이펙트를 실행하고 새 클린업을 저장합니다.
+ * 이펙트에서 발생한 에러는 가장 가까운 ErrorBoundary로 전달됩니다.
+ */
+const runEffects = (rootContext: Context, effectsToRun: QueuedEffect[]): void => {
+  for (const { path, cursor, effect } of effectsToRun) {
+    // 해당 경로의 훅 배열 가져오기
+    const hooks = rootContext.hooks.state.get(path);
+    if (!hooks || cursor >= hooks.length) {
+      continue;
+    }
+
+    // 이펙트 훅 가져오기
+    const effectHook = hooks[cursor] as EffectHook;
+    if (!effectHook || effectHook.kind !== "effect") {
+      continue;
+    }
+
+    try {
+      // 이전 클린업 함수가 있으면 먼저 실행
+      if (effectHook.cleanup) {
+        const prevCleanup = effectHook.cleanup;
+        effectHook.cleanup = null;
+        prevCleanup();
+      }
+
+      // 이펙트 함수 실행하고 새 클린업 함수 저장
+      const cleanup = effect();
+      if (cleanup) {
+        effectHook.cleanup = cleanup;
+      }
+    } catch (error) {
+      // 가장 가까운 ErrorBoundary가 fallback을 렌더링하도록 전달하고, 없으면 그대로 전파
+      if (!dispatchErrorToBoundary(rootContext, path, error)) {
+        throw error;
+      }
+    }
+  }
+};
+
+/**
+ * 인스턴스를 언마운트하고 DOM에서 제거합니다.
+ *
+ * @param removeDom - DOM 노드를 제거할지 여부 (조상의 DOM 노드와 함께 이미 떨어져 나가는 경우 false)
+ */
+export const unmount = (instance: Instance, removeDom = true): void => {
+  // 자식들을 먼저 언마운트
+  // HOST 요소를 제거하면 자손들의 DOM도 함께 떨어져 나가므로 자식들의 DOM은 따로 제거하지 않음
+  // (포털의 자식들은 다른 컨테이너에 있으므로 항상 제거)
+  const removeChildDom = instance.kind === NodeTypes.PORTAL || (removeDom && instance.kind !== NodeTypes.HOST);
+  for (const child of instance.children) {
+    if (child) {
+      unmount(child, removeChildDom);
+    }
+  }
+
+  // 연결된 ref 해제
+  if (instance.kind === NodeTypes.HOST) {
+    detachRef(instance);
+  }
+
+  // 포털이 제거되면 컨테이너에 등록한 리스너도 정리
+  if (instance.kind === NodeTypes.PORTAL) {
+    unlistenToPortalContainer(instance.node.props.container);
+  }
+
+  // 마운트된 컴포넌트 목록에서 제거 (같은 경로에 새로 마운트된 컴포넌트는 유지)
+  const { instances } = context.root;
+  if (instance.kind === NodeTypes.COMPONENT && instances.get(instance.path) === instance) {
+    instances.delete(instance.path);
+  }
+
+  // DOM에서 제거
+  if (removeDom) {
+    removeInstance(instance);
+  }
+
+  // 훅 정리는 cleanupUnusedHooks에서 처리됨
+};
@@ -5,17 +5,41 @@ export const TEXT_ELEMENT = Symbol("mini-react.text");
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export const Fragment = Symbol("mini-react.fragment") as any;
 
+export const PORTAL = Symbol("mini-react.portal");
+
 export const NodeTypes = {
   HOST: "host",
   TEXT: "text",
   COMPONENT: "component",
   FRAGMENT: "fragment",
+  PORTAL: "portal",
 } as const;
 
 export type NodeType = ValueOf<typeof NodeTypes>;
 
 export const HookTypes = {
   EFFECT: "effect",
+  REDUCER: "reducer",
+  PROVIDER: "provider",
+  ERROR_BOUNDARY: "error-boundary",
+  SUSPENSE: "suspense",
 } as const;
 
 export type HookType = typeof HookTypes;
+
+export const EffectTypes = {
+  PLACEMENT: "placement",
+  UPDATE: "update",
+  DELETION: "deletion",
+  REF: "ref",
+  HYDRATION: "hydration",
+} as const;
+
+export type EffectType = typeof EffectTypes;
+
+export const Namespaces = {
+  SVG: "http://www.w3.org/2000/svg",
+  MATH: "http://www.w3.org/1998/Math/MathML",
+  XLINK: "http://www.w3.org/1999/xlink",
+  XML: "http://www.w3.org/XML/1998/namespace",
+} as const;
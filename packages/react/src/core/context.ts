@@ -1,10 +1,11 @@
 import { Context } from "./types";
+import { Priorities } from "../utils";
 
 /**
- * Mini-React의 전역 컨텍스트입니다.
- * 렌더링 루트, 훅 상태, 이펙트 큐 등 모든 런타임 데이터를 관리합니다.
+ * 하나의 렌더링 루트가 사용하는 컨텍스트를 생성합니다.
+ * 렌더링 루트, 훅 상태, 이펙트 큐 등 모든 런타임 데이터를 루트마다 독립적으로 관리합니다.
  */
-export const context: Context = {
+export const createRootContext = (): Context => ({
   /**
    * 렌더링 루트와 관련된 정보를 관리합니다.
    */
@@ -12,14 +13,19 @@ export const context: Context = {
     container: null,
     node: null,
     instance: null,
+    instances: new Map(),
+    portalContainers: new Map(),
     reset({ container, node }) {
       // 렌더링 루트 정보를 초기화합니다
       // container: 실제 DOM 컨테이너 요소
       // node: 렌더링할 VNode
       // instance: 이전 렌더링 결과는 null로 초기화 (새로 렌더링 시작)
+      // instances, portalContainers: 마운트된 컴포넌트 인스턴스와 포털 컨테이너 목록도 비웁니다
       this.container = container;
       this.node = node;
       this.instance = null;
+      this.instances.clear();
+      this.portalContainers.clear();
     },
   },
 
@@ -85,15 +91,59 @@ export const context: Context = {
   },
 
   /**
-   * useEffect 훅의 실행을 관리하는 큐입니다.
+   * useEffect / useLayoutEffect 훅의 실행을 관리하는 큐입니다.
+   * queue는 렌더링 후 비동기로, layoutQueue는 DOM 반영 직후 동기로 실행됩니다.
    */
   effects: {
     queue: [],
+    layoutQueue: [],
+  },
+
+  /**
+   * 진행 중인 렌더링 작업의 상태입니다.
+   * 렌더링은 인스턴스 단위로 나누어 진행되며, 전환 렌더링은 시간 예산을 넘기면 중단했다가 다음 태스크에서 이어서 진행합니다.
+   * 렌더 단계는 DOM을 변경하지 않고 effectList에 작업을 기록하며, 트리 전체의 렌더링이 끝나면 커밋 단계에서 한 번에 반영합니다.
+   */
+  work: {
+    root: null,
+    next: null,
+    completed: [],
+    effectList: [],
+    rerender: false,
+    priority: Priorities.URGENT,
+    includedUpdates: [],
+    transitionPending: false,
+    fromRoot: true,
+    scopes: [],
+    scope: null,
+    pendingPaths: new Set(),
+    providers: new Map(),
+    captured: new Map(),
   },
 
   /**
    * 렌더링 스케줄러 함수입니다.
-   * setup()에서 초기화됩니다.
+   * 루트가 생성될 때 해당 루트를 렌더링하도록 초기화됩니다.
    */
   scheduleRender: null,
+});
+
+/**
+ * 현재 렌더링 중인 루트의 컨텍스트입니다.
+ * 렌더링, 이펙트 실행 등 루트 단위 작업을 하는 동안에는 `runWithContext`로 해당 루트의 컨텍스트로 교체됩니다.
+ */
+export let context: Context = createRootContext();
+
+/**
+ * 주어진 루트 컨텍스트를 현재 컨텍스트로 설정한 상태에서 함수를 실행합니다.
+ * 실행이 끝나면(예외가 발생하더라도) 이전 컨텍스트로 되돌려 중첩 호출에도 안전합니다.
+ */
+export const runWithContext = <T>(target: Context, fn: () => T): T => {
+  const prevContext = context;
+  context = target;
+  try {
+    return fn();
+  } finally {
+    context = prevContext;
+  }
 };
@@ -0,0 +1,93 @@
+import { Instance } from "./types";
+
+/**
+ * 텍스트 입력으로 취급하지 않는 input 타입들입니다.
+ * 이 타입들의 onChange는 네이티브 change 이벤트에서만 실행됩니다.
+ */
+const nonTextInputTypes = new Set(["checkbox", "radio", "file", "submit", "button", "reset", "image", "hidden"]);
+
+/**
+ * 마지막으로 확인한 입력 요소의 값입니다.
+ * 값이 실제로 바뀐 경우에만 onChange를 실행하여 input/change 이벤트가 중복으로 처리되지 않게 합니다.
+ */
+const valueTracker = new WeakMap<Element, string>();
+
+/**
+ * 키 입력마다 onChange를 실행해야 하는 텍스트 입력 요소인지 확인합니다.
+ */
+export const isTextInput = (dom: EventTarget | null): dom is HTMLInputElement | HTMLTextAreaElement => {
+  if (dom instanceof HTMLTextAreaElement) {
+    return true;
+  }
+  return dom instanceof HTMLInputElement && !nonTextInputTypes.has(dom.type);
+};
+
+/**
+ * 렌더링으로 설정한 값을 기록합니다.
+ */
+export const trackValue = (dom: Element, value: string): void => {
+  valueTracker.set(dom, value);
+};
+
+/**
+ * 네이티브 이벤트가 onChange를 실행해야 하는지 확인합니다.
+ * 텍스트 입력은 input/change 이벤트 중 값이 마지막으로 확인한 값과 다를 때, 그 외 요소는 change 이벤트에서 실행합니다.
+ */
+export const shouldFireChange = (nativeEvent: Event): boolean => {
+  const { type, target } = nativeEvent;
+  if (type !== "input" && type !== "change") {
+    return false;
+  }
+
+  if (!isTextInput(target)) {
+    return type === "change";
+  }
+
+  const lastValue = valueTracker.get(target) ?? target.defaultValue;
+  if (target.value === lastValue) {
+    return false;
+  }
+  valueTracker.set(target, target.value);
+  return true;
+};
+
+/**
+ * select 요소에서 값(들)에 해당하는 option을 선택합니다.
+ * multiple select는 배열로 여러 값을 선택할 수 있습니다.
+ */
+export const syncSelectValue = (dom: HTMLSelectElement, value: unknown): void => {
+  if (value == null) {
+    return;
+  }
+
+  const values = Array.isArray(value) ? value.map(String) : [String(value)];
+  for (const option of Array.from(dom.options)) {
+    option.selected = values.includes(option.value);
+  }
+};
+
+/**
+ * 제어 컴포넌트의 DOM 상태를 props에 맞게 되돌립니다.
+ * 이벤트 핸들러에서 상태를 바꾸지 않았다면 사용자가 입력한 값 대신 props의 값이 다시 표시됩니다.
+ */
+export const restoreControlledState = (instance: Instance): void => {
+  const dom = instance.dom;
+  const props = instance.node.props;
+
+  if (dom instanceof HTMLSelectElement) {
+    syncSelectValue(dom, props.value);
+    return;
+  }
+
+  if (props.value != null && (dom instanceof HTMLInputElement || dom instanceof HTMLTextAreaElement)) {
+    const value = String(props.value);
+    if (dom.value !== value) {
+      dom.value = value;
+    }
+    trackValue(dom, value);
+  }
+
+  if (props.checked != null && dom instanceof HTMLInputElement) {
+    dom.checked = Boolean(props.checked);
+  }
+};
@@ -0,0 +1,72 @@
+import { context } from "./context";
+import { Fragment, HookTypes } from "./constants";
+import { createElement } from "./elements";
+import { FunctionComponent, ProviderHook, ReactContext, VNode, WorkContext } from "./types";
+
+/**
+ * 컴포넌트 트리 아래로 값을 전달하기 위한 컨텍스트 객체를 생성합니다.
+ * Provider로 감싸지 않은 컴포넌트에서 `useContext`를 호출하면 defaultValue를 반환합니다.
+ *
+ * @param defaultValue - 가장 가까운 Provider가 없을 때 사용할 값
+ * @returns Provider 컴포넌트를 가진 컨텍스트 객체
+ */
+export const createContext = <T>(defaultValue: T): ReactContext<T> => {
+  const contextObject: ReactContext<T> = {
+    defaultValue,
+    Provider: null as unknown as ReactContext<T>["Provider"],
+  };
+
+  const Provider: FunctionComponent<{ value: T; children?: VNode[] }> = ({ value, children }) => {
+    const currentPath = context.hooks.currentPath;
+    const currentCursor = context.hooks.currentCursor;
+    const hooks = context.hooks.currentHooks;
+
+    // 하위 컴포넌트의 useContext는 componentStack을 거슬러 올라가며 이 훅을 찾습니다
+    if (currentCursor >= hooks.length) {
+      const providerHook: ProviderHook<T> = {
+        kind: HookTypes.PROVIDER,
+        context: contextObject,
+        value,
+        consumers: new Set(),
+      };
+      hooks.push(providerHook);
+    } else {
+      const providerHook = hooks[currentCursor] as ProviderHook<T>;
+      // 커밋된 값과 다르면 값을 읽은 컴포넌트들을 다시 렌더링합니다
+      if (!Object.is(providerHook.value, value)) {
+        providerHook.consumers.forEach((path) => context.work.pendingPaths.add(path));
+      }
+    }
+
+    // 렌더링이 버려질 수 있으므로 새 값은 작업 상태에만 기록하고, 커밋할 때 훅에 반영합니다
+    context.work.providers.set(currentPath, { value, consumers: new Set() });
+    context.hooks.cursor.set(currentPath, currentCursor + 1);
+
+    // 자식들을 그대로 렌더링합니다
+    return createElement(Fragment, null, children);
+  };
+
+  Provider.displayName = "Context.Provider";
+  contextObject.Provider = Provider;
+
+  return contextObject;
+};
+
+/**
+ * 렌더링에서 Provider들이 제공한 값과 그 값을 읽은 컴포넌트들을 Provider의 훅에 반영합니다.
+ * 값이 바뀐 Provider는 이전 값을 읽었던 소비자 기록을 비우고, 이번 렌더링에서 값을 읽은 컴포넌트들로 다시 채웁니다.
+ */
+export const commitProviders = (providers: WorkContext["providers"]): void => {
+  providers.forEach(({ value, consumers }, path) => {
+    const providerHook = context.hooks.state.get(path)?.[0] as ProviderHook | undefined;
+    if (providerHook?.kind !== HookTypes.PROVIDER) {
+      return;
+    }
+
+    if (!Object.is(providerHook.value, value)) {
+      providerHook.value = value;
+      providerHook.consumers.clear();
+    }
+    consumers.forEach((consumer) => providerHook.consumers.add(consumer));
+  });
+};
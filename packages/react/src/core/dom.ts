@@ -1,7 +1,48 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { NodeTypes } from "./constants";
+import { Namespaces, NodeTypes } from "./constants";
+import { ensureEventListener } from "./events";
+import { syncSelectValue, trackValue } from "./controlled";
+import { removeDomAttribute, setDomAttribute } from "./attributes";
+import { updateStyle } from "./style";
 import { Instance } from "./types";
 
+/**
+ * 속성(attribute)이 아닌 DOM 프로퍼티로 설정해야 하는 폼 요소의 상태들입니다.
+ * setAttribute로 설정하면 사용자가 입력한 뒤에는 화면에 반영되지 않습니다.
+ */
+const domPropertyKeys = new Set(["value", "checked", "selected", "defaultValue", "defaultChecked"]);
+
+/**
+ * 폼 요소의 상태를 DOM 프로퍼티로 설정합니다.
+ */
+const setDomProperty = (dom: HTMLElement, key: string, value: any): void => {
+  if (key === "value") {
+    // select의 value는 일치하는 option을 선택하는 것으로 반영
+    if (dom instanceof HTMLSelectElement) {
+      syncSelectValue(dom, value);
+      return;
+    }
+
+    // 같은 값을 다시 설정하면 커서 위치가 초기화되므로 값이 다를 때만 설정
+    const nextValue = value == null ? "" : String(value);
+    if ((dom as HTMLInputElement).value !== nextValue) {
+      (dom as HTMLInputElement).value = nextValue;
+    }
+    trackValue(dom, nextValue);
+    return;
+  }
+
+  if (key === "defaultValue") {
+    if (dom instanceof HTMLInputElement || dom instanceof HTMLTextAreaElement) {
+      dom.defaultValue = value == null ? "" : String(value);
+    }
+    return;
+  }
+
+  // checked, selected, defaultChecked
+  (dom as any)[key] = Boolean(value);
+};
+
 /**
  * DOM 요소에 속성(props)을 설정합니다.
  * 이벤트 핸들러, 스타일, className 등 다양한 속성을 처리해야 합니다.
@@ -22,19 +63,31 @@ export const setDomProps = (dom: HTMLElement, props: Record<string, any>): void
     }
 
     // 이벤트 핸들러 처리 (onClick, onChange 등 on으로 시작하는 속성)
+    // 핸들러는 요소에 직접 등록하지 않고, 루트 컨테이너의 리스너가 인스턴스의 props에서 찾아 실행
     if (key.startsWith("on") && typeof value === "function") {
-      const eventName = key.substring(2).toLowerCase(); // onClick -> click
-      dom.addEventListener(eventName, value);
+      ensureEventListener(key);
+      return;
+    }
+
+    // 폼 요소의 상태는 DOM 프로퍼티로 설정
+    if (domPropertyKeys.has(key)) {
+      setDomProperty(dom, key, value);
       return;
     }
 
-    // style 속성 처리 (객체 형태)
-    if (key === "style" && typeof value === "object" && value !== null) {
-      Object.keys(value).forEach((styleKey) => {
-        // camelCase를 kebab-case로 변환하지 않고 직접 설정
-        // dom.style은 camelCase를 지원함
-        (dom.style as any)[styleKey] = value[styleKey];
-      });
+    // style 속성 처리 (문자열 또는 객체 형태)
+    if (key === "style") {
+      updateStyle(dom, null, value);
+      return;
+    }
+
+    // innerHTML 직접 설정 (자식 재조정은 reconciler에서 건너뜀)
+    // 하이드레이션한 요소처럼 이미 같은 내용이면 자식 노드를 다시 만들지 않음
+    if (key === "dangerouslySetInnerHTML") {
+      const html = value?.__html ?? "";
+      if (dom.innerHTML !== html) {
+        dom.innerHTML = html;
+      }
       return;
     }
 
@@ -47,16 +100,16 @@ export const setDomProps = (dom: HTMLElement, props: Record<string, any>): void
     // boolean 속성 처리 (checked, disabled, readOnly 등)
     if (typeof value === "boolean") {
       if (value) {
-        dom.setAttribute(key, "");
+        setDomAttribute(dom, key, "");
       } else {
-        dom.removeAttribute(key);
+        removeDomAttribute(dom, key);
       }
       return;
     }
 
     // 일반 속성 처리 (문자열, 숫자 등)
     if (value != null) {
-      dom.setAttribute(key, String(value));
+      setDomAttribute(dom, key, String(value));
     }
   });
 };
@@ -83,16 +136,28 @@ export const updateDomProps = (
 
     // 새 속성에 없는 경우만 제거
     if (!(key in next)) {
-      // 이벤트 핸들러 제거
+      // 이벤트 핸들러는 props에서 사라지면 더 이상 실행되지 않으므로 제거할 것이 없음
       if (key.startsWith("on") && typeof prev[key] === "function") {
-        const eventName = key.substring(2).toLowerCase();
-        dom.removeEventListener(eventName, prev[key]);
+        return;
+      }
+
+      // 체크 상태는 해제하고, 입력된 값은 그대로 둠 (비제어 입력으로 전환)
+      if (domPropertyKeys.has(key)) {
+        if (key !== "value" && key !== "defaultValue") {
+          setDomProperty(dom, key, false);
+        }
         return;
       }
 
       // style 속성 제거
       if (key === "style") {
-        dom.removeAttribute("style");
+        updateStyle(dom, prev[key], null);
+        return;
+      }
+
+      // innerHTML로 설정했던 내용 제거
+      if (key === "dangerouslySetInnerHTML") {
+        dom.innerHTML = "";
         return;
       }
 
@@ -103,7 +168,7 @@ export const updateDomProps = (
       }
 
       // 일반 속성 제거
-      dom.removeAttribute(key);
+      removeDomAttribute(dom, key);
     }
   });
 
@@ -117,44 +182,39 @@ export const updateDomProps = (
       return;
     }
 
+    // 폼 요소의 상태는 사용자 입력으로 DOM이 달라졌을 수 있으므로 이전 props가 아닌 DOM과 비교하여 설정
+    if (domPropertyKeys.has(key)) {
+      if (nextValue != null) {
+        setDomProperty(dom, key, nextValue);
+      }
+      return;
+    }
+
     // 값이 변경되지 않았으면 건너뜀
     if (prevValue === nextValue) {
       return;
     }
 
-    // 이벤트 핸들러 업데이트
-    // nextValue가 함수가 아니어도 (null/undefined) 이전 핸들러를 제거해야 함
-    if (key.startsWith("on")) {
-      const eventName = key.substring(2).toLowerCase();
-
-      // 이전 핸들러가 함수였다면 제거
-      if (typeof prevValue === "function") {
-        dom.removeEventListener(eventName, prevValue);
+    // innerHTML은 매 렌더링마다 새 객체가 전달되므로 __html 값을 비교하여 바뀐 경우에만 설정
+    if (key === "dangerouslySetInnerHTML") {
+      if (prevValue?.__html !== nextValue?.__html) {
+        dom.innerHTML = nextValue?.__html ?? "";
       }
+      return;
+    }
 
-      // 새 핸들러가 함수면 추가
+    // 이벤트 핸들러 업데이트
+    // 디스패치 시점에 인스턴스의 최신 props를 읽으므로 리스너만 준비해 둠
+    if (key.startsWith("on")) {
       if (typeof nextValue === "function") {
-        dom.addEventListener(eventName, nextValue);
+        ensureEventListener(key);
       }
-
       return;
     }
 
     // style 속성 업데이트
-    if (key === "style" && typeof nextValue === "object" && nextValue !== null) {
-      const prevStyle = typeof prevValue === "object" && prevValue !== null ? prevValue : {};
-
-      // 이전 스타일 중 새 스타일에 없는 것 제거
-      Object.keys(prevStyle).forEach((styleKey) => {
-        if (!(styleKey in nextValue)) {
-          (dom.style as any)[styleKey] = "";
-        }
-      });
-
-      // 새 스타일 적용
-      Object.keys(nextValue).forEach((styleKey) => {
-        (dom.style as any)[styleKey] = nextValue[styleKey];
-      });
+    if (key === "style") {
+      updateStyle(dom, prevValue, nextValue);
       return;
     }
 
@@ -167,22 +227,57 @@ export const updateDomProps = (
     // boolean 속성 업데이트
     if (typeof nextValue === "boolean") {
       if (nextValue) {
-        dom.setAttribute(key, "");
+        setDomAttribute(dom, key, "");
       } else {
-        dom.removeAttribute(key);
+        removeDomAttribute(dom, key);
       }
       return;
     }
 
     // 일반 속성 업데이트
     if (nextValue != null) {
-      dom.setAttribute(key, String(nextValue));
+      setDomAttribute(dom, key, String(nextValue));
     } else {
-      dom.removeAttribute(key);
+      removeDomAttribute(dom, key);
     }
   });
 };
 
+/**
+ * 새 요소가 속할 네임스페이스를 결정합니다.
+ * svg, math 요소에서 각각의 네임스페이스가 시작되어 하위 요소로 이어지고,
+ * SVG 안의 foreignObject 자식부터는 다시 HTML 네임스페이스로 돌아갑니다.
+ */
+const getNamespace = (parentDom: Element, type: string): string | null => {
+  if (type === "svg") {
+    return Namespaces.SVG;
+  }
+  if (type === "math") {
+    return Namespaces.MATH;
+  }
+
+  const parentNamespace = parentDom.namespaceURI;
+  if (parentNamespace === Namespaces.SVG && parentDom.localName !== "foreignObject") {
+    return Namespaces.SVG;
+  }
+  if (parentNamespace === Namespaces.MATH) {
+    return Namespaces.MATH;
+  }
+  return null;
+};
+
+/**
+ * 부모 DOM의 네임스페이스를 이어받아 요소를 생성합니다.
+ * SVG와 MathML 요소는 createElementNS로 생성해야 올바르게 렌더링됩니다.
+ */
+export const createDomElement = (parentDom: HTMLElement, type: string): HTMLElement => {
+  const namespace = getNamespace(parentDom, type);
+  if (namespace) {
+    return document.createElementNS(namespace, type) as HTMLElement;
+  }
+  return document.createElement(type);
+};
+
 /**
  * 주어진 인스턴스에서 실제 DOM 노드(들)를 재귀적으로 찾아 배열로 반환합니다.
  * Fragment나 컴포넌트 인스턴스는 여러 개의 DOM 노드를 가질 수 있습니다.
@@ -198,6 +293,11 @@ export const getDomNodes = (instance: Instance | null): (HTMLElement | Text)[] =
     return instance.dom ? [instance.dom] : [];
   }
 
+  // PORTAL의 자식들은 다른 컨테이너에 있으므로 부모 DOM 기준으로는 노드가 없는 것으로 취급
+  if (instance.kind === NodeTypes.PORTAL) {
+    return [];
+  }
+
   // COMPONENT나 FRAGMENT는 자식들의 DOM 노드들을 수집
   const nodes: (HTMLElement | Text)[] = [];
   for (const child of instance.children) {
@@ -221,6 +321,11 @@ export const getFirstDom = (instance: Instance | null): HTMLElement | Text | nul
     return instance.dom;
   }
 
+  // PORTAL의 자식들은 다른 컨테이너에 있으므로 anchor로 사용할 수 없음
+  if (instance.kind === NodeTypes.PORTAL) {
+    return null;
+  }
+
   // COMPONENT나 FRAGMENT는 자식들 중 첫 번째 DOM 노드를 찾음
   return getFirstDomFromChildren(instance.children);
 };
@@ -239,6 +344,32 @@ export const getFirstDomFromChildren = (children: (Instance | null)[]): HTMLElem
   return null;
 };
 
+/**
+ * 인스턴스가 차지하는 DOM 노드들 바로 다음에 오는 형제 노드를 찾습니다.
+ * 인스턴스를 다른 내용으로 교체할 때 같은 위치에 삽입하기 위한 anchor로 사용합니다.
+ */
+export const getNextSiblingDom = (instance: Instance | null): HTMLElement | Text | null => {
+  const domNodes = getDomNodes(instance);
+  const lastDom = domNodes[domNodes.length - 1];
+  return (lastDom?.nextSibling as HTMLElement | Text | null) ?? null;
+};
+
+/**
+ * 커밋할 때 렌더러가 수행한 DOM 노드의 삽입, 이동, 제거 횟수입니다.
+ * 이미 같은 부모에 있던 노드를 다시 삽입하면 이동으로 셉니다.
+ * 테스트에서 key 기반 재배치가 최소한의 이동으로 반영되는지 확인할 때 사용하며, reset으로 초기화합니다.
+ */
+export const domOperations = {
+  insertions: 0,
+  moves: 0,
+  removals: 0,
+  reset() {
+    this.insertions = 0;
+    this.moves = 0;
+    this.removals = 0;
+  },
+};
+
 /**
  * 인스턴스를 부모 DOM에 삽입합니다.
  * anchor 노드가 주어지면 그 앞에 삽입하여 순서를 보장합니다.
@@ -258,6 +389,12 @@ export const insertInstance = (
 
   // 각 DOM 노드를 부모에 삽입
   for (const node of domNodes) {
+    if (node.parentNode === parentDom) {
+      domOperations.moves++;
+    } else {
+      domOperations.insertions++;
+    }
+
     if (anchor) {
       // anchor가 있으면 그 앞에 삽입
       parentDom.insertBefore(node, anchor);
@@ -281,6 +418,9 @@ export const removeInstance = (instance: Instance | null): void => {
   const domNodes = getDomNodes(instance);
   for (const node of domNodes) {
     // 부모 노드에서 제거
-    node.parentNode?.removeChild(node);
+    if (node.parentNode) {
+      node.parentNode.removeChild(node);
+      domOperations.removals++;
+    }
   }
 };
@@ -57,8 +57,9 @@ export const createElement = (
   originProps?: Record<string, any> | null,
   ...rawChildren: any[]
 ) => {
-  // props에서 key를 추출하고 나머지 props를 분리
-  const { key = null, ...props } = originProps || {};
+  // props에서 key와 ref를 추출하고 나머지 props를 분리
+  // key와 ref는 예약된 prop이므로 컴포넌트나 DOM 속성으로 전달되지 않습니다
+  const { key = null, ref, ...props } = originProps || {};
 
   // 자식 배열을 평탄화하고 정규화
   // rawChildren은 중첩된 배열일 수 있으므로 flat(Infinity)로 완전히 평탄화
@@ -74,11 +75,17 @@ export const createElement = (
   // children이 있을 때만 props에 추가
   const nodeProps = children.length > 0 ? { ...props, children } : { ...props };
 
-  return {
+  // ref는 전달된 경우에만 VNode에 추가합니다
+  const vNode: VNode = {
     type,
     key: normalizedKey,
     props: nodeProps,
   };
+  if (ref != null) {
+    vNode.ref = ref;
+  }
+
+  return vNode;
 };
 
 /**
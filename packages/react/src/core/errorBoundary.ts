@@ -0,0 +1,123 @@
+import { context } from "./context";
+import { Fragment, HookTypes } from "./constants";
+import { createElement } from "./elements";
+import { useForceUpdate } from "./hooks";
+import { Context, ErrorBoundaryHook, FunctionComponent, VNode, WorkContext } from "./types";
+import { isThenable } from "../utils";
+
+export interface ErrorBoundaryProps {
+  fallback: VNode | ((error: unknown, reset: () => void) => VNode | null);
+  children?: VNode[];
+}
+
+/**
+ * 하위 트리의 렌더링이나 이펙트에서 발생한 에러를 잡아 fallback을 대신 렌더링하는 컴포넌트입니다.
+ * fallback 함수에 전달되는 reset을 호출하면 에러 상태를 지우고 자식들을 다시 렌더링합니다.
+ */
+export const ErrorBoundary: FunctionComponent<ErrorBoundaryProps> = ({ fallback, children }) => {
+  const currentPath = context.hooks.currentPath;
+  const currentCursor = context.hooks.currentCursor;
+  const hooks = context.hooks.currentHooks;
+
+  // 렌더링에서 잡힌 에러는 커밋할 때, 이펙트에서 잡힌 에러는 이펙트 실행기가 이 훅에 기록합니다
+  if (currentCursor >= hooks.length) {
+    const boundaryHook: ErrorBoundaryHook = {
+      kind: HookTypes.ERROR_BOUNDARY,
+      hasError: false,
+      error: null,
+      reset: () => {
+        if (!boundaryHook.hasError) {
+          return;
+        }
+        boundaryHook.hasError = false;
+        boundaryHook.error = null;
+        boundaryHook.forceUpdate();
+      },
+      forceUpdate: () => {},
+    };
+    hooks.push(boundaryHook);
+  }
+
+  const boundaryHook = hooks[currentCursor] as ErrorBoundaryHook;
+  context.hooks.cursor.set(currentPath, currentCursor + 1);
+  boundaryHook.forceUpdate = useForceUpdate();
+
+  // 이번 렌더링에서 잡혀 아직 커밋되지 않은 에러는 작업 상태에서 읽습니다
+  const { captured } = context.work;
+  const hasError = boundaryHook.hasError || captured.has(currentPath);
+  const error = boundaryHook.hasError ? boundaryHook.error : captured.get(currentPath);
+
+  // 자식과 fallback에 서로 다른 key를 주어, 전환될 때 이전 트리가 재사용되지 않고 언마운트되도록 합니다
+  if (hasError) {
+    const content = typeof fallback === "function" ? fallback(error, boundaryHook.reset) : fallback;
+    return createElement(Fragment, { key: "fallback" }, content);
+  }
+
+  return createElement(Fragment, { key: "content" }, children);
+};
+
+ErrorBoundary.displayName = "ErrorBoundary";
+ErrorBoundary.isErrorBoundary = true;
+
+/**
+ * 훅이 ErrorBoundary의 것이고 아직 fallback을 렌더링하지 않고 있어 에러를 잡을 수 있는지 확인합니다.
+ * 던져진 thenable은 에러가 아니라 Suspense를 위한 신호이므로 잡지 않습니다.
+ */
+const canCapture = (boundaryHook: ErrorBoundaryHook | undefined, error: unknown): boundaryHook is ErrorBoundaryHook =>
+  boundaryHook?.kind === HookTypes.ERROR_BOUNDARY && !boundaryHook.hasError && !isThenable(error);
+
+/**
+ * 렌더링 중에 잡은 에러를 작업 상태에 기록합니다. 기록된 에러는 커밋할 때 경계의 훅에 반영됩니다.
+ * 이미 fallback을 렌더링 중인 경계라면 fallback 자체의 에러이므로 기록하지 않고 false를 반환합니다.
+ *
+ * @param path - ErrorBoundary 컴포넌트의 경로
+ * @param hooks - ErrorBoundary 컴포넌트의 훅 상태 배열
+ * @returns 에러를 기록했으면 true
+ */
+export const captureError = (path: string, hooks: unknown[] | undefined, error: unknown): boolean => {
+  if (!canCapture(hooks?.[0] as ErrorBoundaryHook | undefined, error) || context.work.captured.has(path)) {
+    return false;
+  }
+
+  context.work.captured.set(path, error);
+  return true;
+};
+
+/**
+ * 렌더링에서 ErrorBoundary들이 잡은 에러를 경계의 훅에 반영합니다.
+ */
+export const commitCapturedErrors = (captured: WorkContext["captured"]): void => {
+  captured.forEach((error, path) => {
+    const boundaryHook = context.hooks.state.get(path)?.[0] as ErrorBoundaryHook | undefined;
+    if (boundaryHook?.kind !== HookTypes.ERROR_BOUNDARY) {
+      return;
+    }
+
+    boundaryHook.hasError = true;
+    boundaryHook.error = error;
+  });
+};
+
+/**
+ * 주어진 경로의 컴포넌트를 감싸는 가장 가까운 ErrorBoundary에 에러를 전달합니다.
+ * 경로의 마지막 구간을 하나씩 잘라내며 조상 경로를 거슬러 올라갑니다.
+ *
+ * @returns 에러를 처리할 ErrorBoundary를 찾아 다시 렌더링을 예약했으면 true
+ */
+export const dispatchErrorToBoundary = (rootContext: Context, path: string, error: unknown): boolean => {
+  let current = path;
+
+  while (current.includes(".")) {
+    current = current.slice(0, current.lastIndexOf("."));
+
+    const boundaryHook = rootContext.hooks.state.get(current)?.[0] as ErrorBoundaryHook | undefined;
+    if (canCapture(boundaryHook, error)) {
+      boundaryHook.hasError = true;
+      boundaryHook.error = error;
+      boundaryHook.forceUpdate();
+      return true;
+    }
+  }
+
+  return false;
+};
@@ -0,0 +1,427 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NodeTypes } from "./constants";
+import { context } from "./context";
+import { restoreControlledState, shouldFireChange } from "./controlled";
+import { enqueue } from "../utils";
+import { Context, Instance, SyntheticEvent } from "./types";
+
+/**
+ * React 이벤트 이름과 네이티브 이벤트 이름의 매핑 테이블입니다.
+ * 테이블에 없는 이름은 소문자로 변환하여 사용합니다. (onKeyDown -> keydown)
+ */
+const eventNameMap: Record<string, string> = {
+  DoubleClick: "dblclick",
+  MouseEnter: "mouseenter",
+  MouseLeave: "mouseleave",
+  PointerEnter: "pointerenter",
+  PointerLeave: "pointerleave",
+  // 이름이 Capture로 끝나지만 캡처 단계 핸들러가 아닌 이벤트입니다
+  GotPointerCapture: "gotpointercapture",
+  LostPointerCapture: "lostpointercapture",
+  // React의 onFocus/onBlur는 버블링되므로 버블링되는 focusin/focusout을 사용합니다
+  Focus: "focusin",
+  Blur: "focusout",
+};
+
+/**
+ * 루트 컨테이너에 미리 리스너를 등록해 두는 네이티브 이벤트 목록입니다.
+ * 목록에 없는 이벤트는 핸들러가 처음 설정될 때 루트 컨테이너에 등록됩니다.
+ */
+const supportedEvents = [
+  "click",
+  "dblclick",
+  "contextmenu",
+  "mousedown",
+  "mouseup",
+  "mousemove",
+  "mouseover",
+  "mouseout",
+  "mouseenter",
+  "mouseleave",
+  "pointerdown",
+  "pointerup",
+  "pointermove",
+  "pointerover",
+  "pointerout",
+  "pointerenter",
+  "pointerleave",
+  "pointercancel",
+  "touchstart",
+  "touchmove",
+  "touchend",
+  "touchcancel",
+  "keydown",
+  "keyup",
+  "keypress",
+  "focusin",
+  "focusout",
+  "input",
+  "change",
+  "submit",
+  "reset",
+  "invalid",
+  "select",
+  "scroll",
+  "wheel",
+  "copy",
+  "cut",
+  "paste",
+  "drag",
+  "dragstart",
+  "dragend",
+  "dragenter",
+  "dragleave",
+  "dragover",
+  "drop",
+  "load",
+  "error",
+];
+
+/**
+ * 이벤트가 발생한 요소에서만 실행되고 상위로 전파되지 않는 이벤트 목록입니다.
+ */
+const nonBubblingEvents = new Set([
+  "mouseenter",
+  "mouseleave",
+  "pointerenter",
+  "pointerleave",
+  "scroll",
+  "load",
+  "error",
+]);
+
+/**
+ * DOM 노드와 그 노드를 소유한 인스턴스의 매핑입니다.
+ * 네이티브 이벤트의 target에서 인스턴스 트리로 진입할 때 사용합니다.
+ */
+const domInstances = new WeakMap<Node, Instance>();
+
+/**
+ * 컨테이너와 루트별로 등록된 네이티브 리스너들입니다. (이벤트 이름 -> [캡처 리스너, 버블 리스너])
+ * document.body처럼 여러 루트의 포털이 같은 컨테이너를 공유할 수 있으므로, 리스너는 루트마다 따로 등록합니다.
+ */
+const containerListeners = new WeakMap<EventTarget, Map<Context, Map<string, [EventListener, EventListener]>>>();
+
+/**
+ * 컨테이너에 현재 루트가 등록한 리스너 목록을 반환합니다.
+ */
+const getListeners = (container: EventTarget, rootContext: Context) => {
+  let listenersByRoot = containerListeners.get(container);
+  if (!listenersByRoot) {
+    listenersByRoot = new Map();
+    containerListeners.set(container, listenersByRoot);
+  }
+  let listeners = listenersByRoot.get(rootContext);
+  if (!listeners) {
+    listeners = new Map();
+    listenersByRoot.set(rootContext, listeners);
+  }
+  return listeners;
+};
+
+/**
+ * 네이티브 이벤트마다 하나의 합성 이벤트를 공유하고, 루트마다 각 단계가 이미 처리되었는지 기록합니다.
+ * 루트 컨테이너와 포털 컨테이너가 같은 이벤트를 받아도 루트마다 한 번만 디스패치되며,
+ * 중첩된 루트는 각자의 인스턴스 트리를 따라 따로 디스패치됩니다.
+ */
+interface DispatchState {
+  event: SyntheticEvent;
+  currentTarget: EventTarget | null;
+  propagationStopped: boolean;
+  fireChange: boolean;
+  captured: Set<Context>;
+  bubbled: Set<Context>;
+}
+
+const dispatchStates = new WeakMap<Event, DispatchState>();
+
+/**
+ * prop 이름이 이벤트 핸들러라면 네이티브 이벤트 이름과 캡처 단계 여부를 반환합니다.
+ * onClick -> { type: "click", capture: false }, onClickCapture -> { type: "click", capture: true }
+ */
+export const getEventInfo = (propName: string): { type: string; capture: boolean } | null => {
+  if (!/^on[A-Z]/.test(propName)) {
+    return null;
+  }
+
+  const fullName = propName.slice(2);
+  const capture = !Object.prototype.hasOwnProperty.call(eventNameMap, fullName) && fullName.endsWith("Capture");
+  const name = capture ? fullName.slice(0, -"Capture".length) : fullName;
+  return { type: eventNameMap[name] ?? name.toLowerCase(), capture };
+};
+
+/**
+ * DOM 노드를 소유한 인스턴스를 기록합니다.
+ */
+export const setDomInstance = (dom: Node, instance: Instance): void => {
+  domInstances.set(dom, instance);
+};
+
+/**
+ * 컨테이너에 현재 루트의 네이티브 이벤트를 위한 캡처/버블 리스너를 등록합니다.
+ * 이미 등록되어 있으면 아무것도 하지 않습니다.
+ */
+export const listenToEvent = (container: EventTarget, type: string): void => {
+  const rootContext = context;
+  const listeners = getListeners(container, rootContext);
+  if (listeners.has(type)) {
+    return;
+  }
+
+  const captureListener = (nativeEvent: Event) => dispatchEvent(rootContext, nativeEvent, true);
+  const bubbleListener = (nativeEvent: Event) => dispatchEvent(rootContext, nativeEvent, false);
+  container.addEventListener(type, captureListener, true);
+  container.addEventListener(type, bubbleListener, false);
+  listeners.set(type, [captureListener, bubbleListener]);
+};
+
+/**
+ * 컨테이너에 지원하는 모든 이벤트의 리스너를 등록합니다.
+ * 요소마다 리스너를 붙이지 않고 컨테이너 하나에서 인스턴스 트리를 따라 핸들러를 실행합니다.
+ */
+export const listenToAllSupportedEvents = (container: EventTarget): void => {
+  for (const type of supportedEvents) {
+    listenToEvent(container, type);
+  }
+};
+
+/**
+ * 컨테이너에 주어진 루트가 등록한 모든 이벤트 리스너를 제거합니다.
+ */
+export const unlistenToAllEvents = (container: EventTarget, rootContext: Context = context): void => {
+  const listenersByRoot = containerListeners.get(container);
+  const listeners = listenersByRoot?.get(rootContext);
+  if (!listenersByRoot || !listeners) {
+    return;
+  }
+
+  listeners.forEach(([captureListener, bubbleListener], type) => {
+    container.removeEventListener(type, captureListener, true);
+    container.removeEventListener(type, bubbleListener, false);
+  });
+  listenersByRoot.delete(rootContext);
+  if (listenersByRoot.size === 0) {
+    containerListeners.delete(container);
+  }
+};
+
+/**
+ * 포털 컨테이너에 리스너를 등록하고 현재 루트의 포털 컨테이너로 기록합니다.
+ * 루트 컨테이너에 나중에 등록된 이벤트도 포털 안에서 받을 수 있도록 함께 등록합니다.
+ */
+export const listenToPortalContainer = (container: EventTarget): void => {
+  const { root } = context;
+  listenToAllSupportedEvents(container);
+  if (root.container) {
+    getListeners(root.container, context).forEach((_, type) => listenToEvent(container, type));
+  }
+
+  root.portalContainers.set(container, (root.portalContainers.get(container) ?? 0) + 1);
+};
+
+/**
+ * 포털이 제거될 때 호출되며, 현재 루트에서 컨테이너를 사용하는 포털이 더 이상 없으면 리스너를 제거합니다.
+ */
+export const unlistenToPortalContainer = (container: EventTarget): void => {
+  const { portalContainers } = context.root;
+  const count = (portalContainers.get(container) ?? 1) - 1;
+  if (count > 0) {
+    portalContainers.set(container, count);
+    return;
+  }
+
+  portalContainers.delete(container);
+  // 포털이 루트 컨테이너를 대상으로 했다면 루트의 리스너는 유지
+  if (container !== context.root.container) {
+    unlistenToAllEvents(container);
+  }
+};
+
+/**
+ * 이벤트 핸들러 prop이 설정될 때, 미리 등록되지 않은 이벤트라면 현재 루트 컨테이너와 포털 컨테이너들에 리스너를 등록합니다.
+ */
+export const ensureEventListener = (propName: string): void => {
+  const eventInfo = getEventInfo(propName);
+  const { container, portalContainers } = context.root;
+  if (!eventInfo || !container) {
+    return;
+  }
+
+  listenToEvent(container, eventInfo.type);
+  portalContainers.forEach((_, portalContainer) => listenToEvent(portalContainer, eventInfo.type));
+};
+
+/**
+ * 네이티브 이벤트를 감싸는 합성 이벤트를 생성합니다.
+ * 네이티브 이벤트의 속성은 그대로 읽을 수 있고, currentTarget과 전파 제어 메서드만 인스턴스 트리 기준으로 동작합니다.
+ */
+const createDispatchState = (nativeEvent: Event): DispatchState => {
+  const state = {
+    currentTarget: null,
+    propagationStopped: false,
+    fireChange: shouldFireChange(nativeEvent),
+    captured: new Set(),
+    bubbled: new Set(),
+  } as DispatchState;
+
+  const overrides: Record<PropertyKey, unknown> = {
+    nativeEvent,
+    stopPropagation() {
+      state.propagationStopped = true;
+      nativeEvent.stopPropagation();
+    },
+    isPropagationStopped: () => state.propagationStopped,
+    isDefaultPrevented: () => nativeEvent.defaultPrevented,
+    persist: () => {},
+  };
+
+  state.event = new Proxy(nativeEvent, {
+    get(target, prop) {
+      if (prop === "currentTarget") {
+        return state.currentTarget;
+      }
+      if (prop in overrides) {
+        return overrides[prop];
+      }
+      const value = Reflect.get(target, prop);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  }) as SyntheticEvent;
+
+  return state;
+};
+
+/**
+ * 인스턴스의 props에서 주어진 이벤트와 단계에 해당하는 핸들러들을 props 순서대로 찾습니다.
+ * onChange는 이벤트 이름이 아니라 값이 바뀌었는지(fireChange)에 따라 실행되므로,
+ * input 이벤트에서는 onInput과 onChange가 함께 실행될 수 있습니다.
+ */
+const getHandlers = (
+  instance: Instance,
+  state: DispatchState,
+  type: string,
+  capture: boolean,
+): Array<(event: SyntheticEvent) => void> => {
+  const props = instance.node.props as Record<string, any>;
+  const handlers: Array<(event: SyntheticEvent) => void> = [];
+  for (const key of Object.keys(props)) {
+    const eventInfo = getEventInfo(key);
+    if (!eventInfo || eventInfo.capture !== capture || typeof props[key] !== "function") {
+      continue;
+    }
+
+    const matched = eventInfo.type === "change" ? state.fireChange : eventInfo.type === type;
+    if (matched) {
+      handlers.push(props[key]);
+    }
+  }
+  return handlers;
+};
+
+/**
+ * 인스턴스가 주어진 루트의 인스턴스 트리에 속하는지 확인합니다.
+ */
+const belongsToRoot = (instance: Instance, rootContext: Context): boolean => {
+  let current = instance;
+  while (current.parent) {
+    current = current.parent;
+  }
+  return current === rootContext.root.instance;
+};
+
+/**
+ * 이벤트 target에서 가장 가까운, 주어진 루트의 인스턴스부터 루트까지 경로에 있는 HOST 인스턴스들을 수집합니다.
+ * DOM 트리가 아닌 인스턴스 트리를 따라가므로 포털 안에서 발생한 이벤트도 논리적인 부모로 전파되며,
+ * target이 중첩된 루트 안에 있으면 그 루트의 컨테이너를 렌더링한 요소부터 전파됩니다.
+ */
+const collectHostInstances = (rootContext: Context, target: EventTarget | null, type: string): Instance[] => {
+  let node = target as Node | null;
+  let instance: Instance | null = null;
+  while (node && !instance) {
+    const candidate = domInstances.get(node);
+    if (candidate && belongsToRoot(candidate, rootContext)) {
+      instance = candidate;
+    }
+    node = node.parentNode;
+  }
+
+  const instances: Instance[] = [];
+  for (let current = instance; current; current = current.parent ?? null) {
+    if (current.kind === NodeTypes.HOST) {
+      instances.push(current);
+      // 버블링되지 않는 이벤트는 target 요소의 핸들러만 실행합니다
+      if (nonBubblingEvents.has(type)) {
+        break;
+      }
+    }
+  }
+  return instances;
+};
+
+/**
+ * 수집된 인스턴스들을 순서대로 방문하며 핸들러를 실행합니다.
+ */
+const runHandlers = (state: DispatchState, instances: Instance[], type: string, capture: boolean): void => {
+  for (const instance of instances) {
+    if (state.propagationStopped) {
+      break;
+    }
+
+    state.currentTarget = instance.dom;
+    for (const handler of getHandlers(instance, state, type, capture)) {
+      handler(state.event);
+    }
+  }
+  state.currentTarget = null;
+};
+
+/**
+ * 컨테이너에서 받은 네이티브 이벤트를 인스턴스 트리를 따라 디스패치합니다.
+ * 캡처 단계는 루트에서 target 방향으로, 버블 단계는 target에서 루트 방향으로 핸들러를 실행합니다.
+ */
+const dispatchEvent = (rootContext: Context, nativeEvent: Event, capture: boolean): void => {
+  let state = dispatchStates.get(nativeEvent);
+  if (!state) {
+    state = createDispatchState(nativeEvent);
+    dispatchStates.set(nativeEvent, state);
+  }
+
+  // 같은 루트의 루트 컨테이너와 포털 컨테이너가 모두 이벤트를 받더라도 한 번만 디스패치
+  const handled = capture ? state.captured : state.bubbled;
+  if (handled.has(rootContext)) {
+    return;
+  }
+  handled.add(rootContext);
+
+  const { type } = nativeEvent;
+  const instances = collectHostInstances(rootContext, nativeEvent.target, type);
+  if (instances.length === 0) {
+    return;
+  }
+
+  if (capture) {
+    runHandlers(state, [...instances].reverse(), type, true);
+
+    // 네이티브 이벤트가 버블링되지 않으면 컨테이너의 버블 리스너가 호출되지 않으므로 여기서 버블 단계를 이어서 실행합니다
+    if (!nativeEvent.bubbles && !state.bubbled.has(rootContext)) {
+      state.bubbled.add(rootContext);
+      runHandlers(state, instances, type, false);
+      scheduleRestore(instances[0]);
+    }
+    return;
+  }
+
+  runHandlers(state, instances, type, false);
+  scheduleRestore(instances[0]);
+};
+
+/**
+ * 핸들러가 예약한 렌더링이 끝난 뒤, target 요소가 제어 컴포넌트라면 DOM 상태를 props의 값으로 되돌립니다.
+ * 상태가 바뀌었다면 새 props의 값이, 바뀌지 않았다면 이전 값이 유지됩니다.
+ */
+const scheduleRestore = (target: Instance): void => {
+  const { props } = target.node;
+  if (props.value != null || props.checked != null) {
+    enqueue(() => restoreControlledState(target));
+  }
+};
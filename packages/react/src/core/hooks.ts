@@ -1,18 +1,22 @@
-import { shallowEquals } from "../utils";
+import { getCurrentPriority, Priority, shallowEquals } from "../utils";
 import { context } from "./context";
-import { EffectHook } from "./types";
+import { EffectHook, ProviderHook, ReactContext, ReducerHook } from "./types";
 import { HookTypes } from "./constants";
 
 /**
  * 사용되지 않는 컴포넌트의 훅 상태와 이펙트 클린업 함수를 정리합니다.
+ *
+ * @param scopePaths - 렌더링한 하위 트리들의 경로 (주어지면 그 하위 트리 안의 경로만 정리합니다)
  */
-export const cleanupUnusedHooks = () => {
+export const cleanupUnusedHooks = (scopePaths?: string[]) => {
   // visited에 포함되지 않은 경로는 더 이상 사용되지 않는 컴포넌트
   const pathsToDelete: string[] = [];
+  const isInScope = (path: string) =>
+    !scopePaths || scopePaths.some((scopePath) => path === scopePath || path.startsWith(`${scopePath}.`));
 
   // state Map을 순회하며 사용되지 않는 경로 찾기
   for (const path of context.hooks.state.keys()) {
-    if (!context.hooks.visited.has(path)) {
+    if (!context.hooks.visited.has(path) && isInScope(path)) {
       pathsToDelete.push(path);
     }
   }
@@ -42,64 +46,203 @@ export const cleanupUnusedHooks = () => {
   }
 };
 
+/**
+ * 이번 렌더링에서 다시 실행해야 하는 컴포넌트들의 경로를 수집합니다.
+ * 렌더링의 우선순위에 포함되는 업데이트가 아직 커밋되지 않은 컴포넌트들이 해당됩니다.
+ *
+ * @param priority - 렌더링의 우선순위
+ */
+export const getPendingPaths = (priority: Priority): Set<string> => {
+  const pendingPaths = new Set<string>();
+
+  for (const [path, hooks] of context.hooks.state) {
+    const hasPendingUpdate = hooks.some(
+      (hook) =>
+        hook.kind === HookTypes.REDUCER &&
+        (hook as ReducerHook).queue.some((update) => !update.committed && update.priority <= priority),
+    );
+
+    if (hasPendingUpdate) {
+      pendingPaths.add(path);
+    }
+  }
+
+  return pendingPaths;
+};
+
+/**
+ * useState의 리듀서입니다. 함수가 전달되면 이전 상태를 인자로 실행한 결과를, 아니면 값을 그대로 다음 상태로 사용합니다.
+ */
+const basicStateReducer = <T>(state: T, action: T | ((prev: T) => T)): T =>
+  typeof action === "function" ? (action as (prev: T) => T)(state) : action;
+
 /**
  * 컴포넌트의 상태를 관리하기 위한 훅입니다.
  * @param initialValue - 초기 상태 값 또는 초기 상태를 반환하는 함수
- * @returns [현재 상태, 상태를 업데이트하는 함수]
+ * @returns [현재 상태, 렌더링 간에 참조가 유지되는 상태 업데이트 함수]
+ */
+export const useState = <T>(initialValue: T | (() => T)): [T, (nextValue: T | ((prev: T) => T)) => void] =>
+  useReducer(basicStateReducer<T>, initialValue, (initialArg) =>
+    typeof initialArg === "function" ? (initialArg as () => T)() : initialArg,
+  );
+
+/**
+ * 이미 커밋된 렌더링에 반영된 앞쪽 업데이트들을 기준 상태에 합칩니다.
+ * 아직 반영되지 않은 업데이트 뒤에 있는 업데이트들은 그 업데이트 위에 다시 적용되어야 하므로 남겨 둡니다.
+ */
+const foldCommittedUpdates = <S, A>(hook: ReducerHook<S, A>): void => {
+  let count = 0;
+  while (count < hook.queue.length && hook.queue[count].committed) {
+    hook.baseState = hook.reducer(hook.baseState, hook.queue[count].action);
+    count++;
+  }
+  if (count > 0) {
+    hook.queue = hook.queue.slice(count);
+  }
+};
+
+/**
+ * 리듀서 함수로 컴포넌트의 상태를 관리하기 위한 훅입니다.
+ * 업데이트는 발생한 우선순위와 함께 큐에 쌓이고, 렌더링할 때 그 렌더링의 우선순위에 포함되는 업데이트만 적용됩니다.
+ * 긴급한 렌더링이 건너뛴 전환 업데이트는 이후의 전환 렌더링에서 긴급한 업데이트들과 함께 원래 순서대로 다시 적용됩니다.
+ * @param reducer - (현재 상태, 액션) => 다음 상태를 반환하는 함수
+ * @param initialArg - 초기 상태 값 (init이 주어지면 init의 인자)
+ * @param init - 초기 상태를 지연 계산하는 함수
+ * @returns [현재 상태, 렌더링 간에 참조가 유지되는 dispatch 함수]
  */
-export const useState = <T>(initialValue: T | (() => T)): [T, (nextValue: T | ((prev: T) => T)) => void] => {
-  // 1. 현재 컴포넌트의 훅 커서와 상태 배열을 가져옵니다
+export function useReducer<S, A>(reducer: (state: S, action: A) => S, initialArg: S): [S, (action: A) => void];
+export function useReducer<S, A, I>(
+  reducer: (state: S, action: A) => S,
+  initialArg: I,
+  init: (arg: I) => S,
+): [S, (action: A) => void];
+export function useReducer<S, A, I>(
+  reducer: (state: S, action: A) => S,
+  initialArg: I | S,
+  init?: (arg: I) => S,
+): [S, (action: A) => void] {
+  // 현재 컴포넌트의 훅 커서와 상태 배열을 가져옵니다
   const currentPath = context.hooks.currentPath;
   const currentCursor = context.hooks.currentCursor;
   const hooks = context.hooks.currentHooks;
+  // dispatch가 나중에 호출되더라도 자신이 속한 루트를 다시 렌더링하도록 루트 컨텍스트를 캡처합니다
+  const rootContext = context;
 
-  // 2. 첫 렌더링이라면 초기값으로 상태를 설정합니다
+  // 첫 렌더링이라면 리듀서 훅을 생성합니다
   if (currentCursor >= hooks.length) {
-    // initialValue가 함수면 실행하여 초기값을 얻음
-    const initialState = typeof initialValue === "function" ? (initialValue as () => T)() : initialValue;
+    // init이 주어지면 initialArg를 인자로 실행하여 초기 상태를 지연 계산합니다
+    const initialState = init ? init(initialArg as I) : (initialArg as S);
 
-    // 새 상태를 훅 배열에 추가
-    hooks.push(initialState);
-  }
+    const reducerHook: ReducerHook<S, A> = {
+      kind: HookTypes.REDUCER,
+      baseState: initialState,
+      queue: [],
+      reducer,
+      // dispatch는 첫 렌더링에서 한 번만 생성되므로 참조가 항상 유지됩니다
+      dispatch: (action: A) => {
+        // 이미 언마운트된 컴포넌트의 dispatch 호출은 무시합니다
+        if (rootContext.hooks.state.get(currentPath)?.[currentCursor] !== reducerHook) {
+          return;
+        }
 
-  // 현재 상태 값
-  const state = hooks[currentCursor];
+        // 기다리는 업데이트가 없을 때 다음 상태가 현재 상태와 같으면(Object.is) 재렌더링을 건너뜁니다
+        // 항상 마지막 렌더링의 리듀서로 다음 상태를 계산합니다
+        foldCommittedUpdates(reducerHook);
+        if (
+          reducerHook.queue.length === 0 &&
+          Object.is(reducerHook.reducer(reducerHook.baseState, action), reducerHook.baseState)
+        ) {
+          return;
+        }
 
-  // 3. 상태 변경 함수(setter)를 생성합니다
-  // setState는 클로저로 currentPath와 currentCursor를 캡처합니다
-  const setState = (nextValue: T | ((prev: T) => T)) => {
-    // hooks 배열을 다시 가져옵니다 (클로저이므로)
-    const stateArray = context.hooks.state.get(currentPath)!;
-    const prevState = stateArray[currentCursor];
+        // startTransition 안에서 발생한 업데이트는 전환 우선순위를 가집니다
+        const priority = getCurrentPriority();
+        reducerHook.queue.push({ action, priority, committed: false });
+        // 렌더링 스케줄링 (순환 import 방지를 위해 context를 통해 접근)
+        rootContext.scheduleRender?.(priority);
+      },
+    };
+    hooks.push(reducerHook);
+  }
 
-    // nextValue가 함수면 이전 상태를 인자로 전달하여 실행
-    const newState = typeof nextValue === "function" ? (nextValue as (prev: T) => T)(prevState) : nextValue;
+  const reducerHook = hooks[currentCursor] as ReducerHook<S, A>;
 
-    // 새 값이 이전 값과 같으면(Object.is) 재렌더링을 건너뜁니다
-    if (Object.is(prevState, newState)) {
-      return;
-    }
+  // 렌더링마다 전달된 최신 리듀서를 사용하도록 갱신합니다
+  reducerHook.reducer = reducer;
 
-    // 값이 다르면 상태를 업데이트하고 재렌더링을 예약합니다
-    stateArray[currentCursor] = newState;
-    // 렌더링 스케줄링 (순환 import 방지를 위해 context를 통해 접근)
-    if (context.scheduleRender) {
-      context.scheduleRender();
+  // 기준 상태에서 시작하여 이번 렌더링의 우선순위에 포함되는 업데이트만 순서대로 적용합니다
+  foldCommittedUpdates(reducerHook);
+  const { priority, includedUpdates } = context.work;
+  let state = reducerHook.baseState;
+  for (const update of reducerHook.queue) {
+    if (update.priority <= priority) {
+      state = reducer(state, update.action);
+      includedUpdates.push(update);
     }
-  };
+  }
 
-  // 4. 훅 커서를 증가시키고 [상태, setter]를 반환합니다
+  // 훅 커서를 증가시키고 [상태, dispatch]를 반환합니다
   context.hooks.cursor.set(currentPath, currentCursor + 1);
 
-  return [state, setState];
+  return [state, reducerHook.dispatch];
+}
+
+/**
+ * 호출하면 현재 컴포넌트를 다시 렌더링하도록 예약하는 함수를 반환하는 훅입니다.
+ * 훅 큐를 거치지 않고 상태를 바꾸는 경계 컴포넌트가, 상태를 바꾼 뒤 다시 렌더링될 컴포넌트로 기록되도록 할 때 사용합니다.
+ */
+export const useForceUpdate = (): (() => void) => {
+  const [, dispatch] = useReducer((count: number) => count + 1, 0);
+  return () => dispatch(undefined);
 };
 
 /**
- * 컴포넌트의 사이드 이펙트를 처리하기 위한 훅입니다.
- * @param effect - 실행할 이펙트 함수. 클린업 함수를 반환할 수 있습니다.
- * @param deps - 의존성 배열. 이 값들이 변경될 때만 이펙트가 다시 실행됩니다.
+ * 가장 가까운 상위 Provider가 제공하는 컨텍스트 값을 읽는 훅입니다.
+ * 현재 렌더링 중인 조상 컴포넌트들(componentStack)을 안쪽부터 거슬러 올라가며 Provider를 찾으므로
+ * 중첩된 Provider는 바깥쪽 Provider를 가립니다.
+ * @param contextObject - createContext로 생성한 컨텍스트 객체
+ * @returns Provider의 value, Provider가 없으면 defaultValue
  */
-export const useEffect = (effect: () => (() => void) | void, deps?: unknown[]): void => {
+export const useContext = <T>(contextObject: ReactContext<T>): T => {
+  // 컴포넌트 외부에서 호출되었는지 검사합니다
+  const currentPath = context.hooks.currentPath;
+  const { componentStack, state } = context.hooks;
+
+  // 자기 자신을 제외한 조상 컴포넌트들 중 같은 컨텍스트의 Provider를 찾습니다
+  for (let i = componentStack.length - 1; i >= 0; i--) {
+    const path = componentStack[i];
+    if (path === currentPath) {
+      continue;
+    }
+
+    const providerHook = state.get(path)?.[0] as ProviderHook<T> | undefined;
+    if (providerHook?.kind === HookTypes.PROVIDER && providerHook.context === contextObject) {
+      // 이번 렌더링에서 실행되지 않은 Provider는 커밋된 값을 제공합니다
+      const { providers } = context.work;
+      let provided = providers.get(path);
+      if (!provided) {
+        provided = { value: providerHook.value, consumers: new Set() };
+        providers.set(path, provided);
+      }
+      // 값이 바뀌었을 때 렌더링을 건너뛴 조상 아래에서도 다시 렌더링되도록, 커밋할 때 소비자로 기록합니다
+      provided.consumers.add(currentPath);
+      return provided.value as T;
+    }
+  }
+
+  return contextObject.defaultValue;
+};
+
+/**
+ * useEffect와 useLayoutEffect가 공유하는 이펙트 훅 구현입니다.
+ * 의존성이 변경되었을 때 주어진 큐에 이펙트 실행을 예약합니다.
+ * @param queueName - 이펙트를 예약할 큐 (queue: 비동기 실행, layoutQueue: 커밋 직후 동기 실행)
+ */
+const useEffectHook = (
+  effect: () => (() => void) | void,
+  deps: unknown[] | undefined,
+  queueName: "queue" | "layoutQueue",
+): void => {
   // 현재 컴포넌트의 훅 커서와 상태 배열을 가져옵니다
   const currentPath = context.hooks.currentPath;
   const currentCursor = context.hooks.currentCursor;
@@ -109,22 +252,22 @@ export const useEffect = (effect: () => (() => void) | void, deps?: unknown[]):
   const normalizedDeps = deps === undefined ? null : deps;
 
   // 첫 렌더링이거나 이 위치에 훅이 없으면 새 이펙트 훅 생성
+  // 의존성은 이펙트가 커밋될 때 기록됩니다
   if (currentCursor >= hooks.length) {
     const effectHook: EffectHook = {
       kind: HookTypes.EFFECT,
-      deps: normalizedDeps,
+      deps: null,
       cleanup: null,
-      effect,
     };
     hooks.push(effectHook);
 
     // 이펙트 실행을 예약합니다
-    context.effects.queue.push({ path: currentPath, cursor: currentCursor });
+    context.effects[queueName].push({ path: currentPath, cursor: currentCursor, effect, deps: normalizedDeps });
   } else {
     // 이전 이펙트 훅 가져오기
     const prevEffectHook = hooks[currentCursor] as EffectHook;
 
-    // 1. 이전 훅의 의존성 배열과 현재 의존성 배열을 비교(shallowEquals)합니다
+    // 1. 마지막으로 커밋된 의존성 배열과 현재 의존성 배열을 비교(shallowEquals)합니다
     const depsChanged =
       normalizedDeps === null
         ? true // deps가 없으면 항상 실행
@@ -132,15 +275,30 @@ export const useEffect = (effect: () => (() => void) | void, deps?: unknown[]):
 
     // 2. 의존성이 변경되었을 경우, 이펙트 실행을 예약합니다
     if (depsChanged) {
-      // 이펙트 정보 업데이트
-      prevEffectHook.deps = normalizedDeps;
-      prevEffectHook.effect = effect;
-
-      // 이펙트 실행을 예약합니다
-      context.effects.queue.push({ path: currentPath, cursor: currentCursor });
+      context.effects[queueName].push({ path: currentPath, cursor: currentCursor, effect, deps: normalizedDeps });
     }
   }
 
   // 훅 커서를 증가시킵니다
   context.hooks.cursor.set(currentPath, currentCursor + 1);
 };
+
+/**
+ * 컴포넌트의 사이드 이펙트를 처리하기 위한 훅입니다.
+ * 이펙트는 렌더링이 끝난 뒤 마이크로태스크에서 비동기로 실행됩니다.
+ * @param effect - 실행할 이펙트 함수. 클린업 함수를 반환할 수 있습니다.
+ * @param deps - 의존성 배열. 이 값들이 변경될 때만 이펙트가 다시 실행됩니다.
+ */
+export const useEffect = (effect: () => (() => void) | void, deps?: unknown[]): void => {
+  useEffectHook(effect, deps, "queue");
+};
+
+/**
+ * DOM 변경이 반영된 직후, 브라우저가 화면을 그리기 전에 동기적으로 실행되는 이펙트 훅입니다.
+ * 레이아웃을 측정하고 바로 DOM을 조정해야 할 때 사용하며, 의존성 비교 규칙은 useEffect와 같습니다.
+ * @param effect - 실행할 이펙트 함수. 클린업 함수를 반환할 수 있습니다.
+ * @param deps - 의존성 배열. 이 값들이 변경될 때만 이펙트가 다시 실행됩니다.
+ */
+export const useLayoutEffect = (effect: () => (() => void) | void, deps?: unknown[]): void => {
+  useEffectHook(effect, deps, "layoutQueue");
+};
@@ -0,0 +1,238 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { getAttributeName } from "./attributes";
+import { createDomElement } from "./dom";
+import { HydrationSnapshot, VNode } from "./types";
+
+/**
+ * 하이드레이션 중인지 여부입니다.
+ * 하이드레이션은 첫 렌더링 동안 동기적으로만 진행되므로 한 번에 하나의 루트만 하이드레이션됩니다.
+ */
+let hydrating = false;
+
+/**
+ * 부모 DOM별로 다음에 재사용할 서버 렌더링 노드를 가리키는 커서입니다.
+ * 커서가 없는 부모(새로 만든 요소, 포털 컨테이너 등)의 자식은 클라이언트에서 새로 생성합니다.
+ */
+let cursors = new Map<Node, ChildNode | null>();
+
+/**
+ * 부모 DOM별로 클라이언트 노드로 교체되어 커밋할 때 제거할 서버 렌더링 노드들입니다.
+ */
+let replaced = new Map<Node, ChildNode[]>();
+
+/**
+ * 재사용하기로 한 서버 렌더링 노드들과 하이드레이션 중인 컨테이너입니다.
+ * 렌더 단계에서는 DOM을 변경하지 않으므로, 이 노드들의 자식 정리와 props 반영은 커밋할 때 이루어집니다.
+ */
+const claimed = new Set<Node>();
+
+/**
+ * 속성이 아닌 DOM 프로퍼티로 관리되어 불일치를 검사하지 않는 props입니다.
+ */
+const propertyKeys = new Set([
+  "children",
+  "style",
+  "dangerouslySetInnerHTML",
+  "value",
+  "checked",
+  "selected",
+  "defaultValue",
+  "defaultChecked",
+]);
+
+/**
+ * 개발 모드에서 서버 HTML과 클라이언트 렌더링 결과가 다를 때 경고합니다.
+ */
+const warnMismatch = (message: string): void => {
+  if (import.meta.env.DEV) {
+    console.warn(`Hydration mismatch: ${message}`);
+  }
+};
+
+const describeNode = (node: Node | null): string => {
+  if (!node) {
+    return "nothing";
+  }
+  if (node instanceof Element) {
+    return `<${node.localName}>`;
+  }
+  return JSON.stringify(node.textContent);
+};
+
+export const isHydrating = (): boolean => hydrating;
+
+/**
+ * 서버 렌더링 노드를 재사용하기로 한 노드인지 확인합니다. (하이드레이션 중인 컨테이너 포함)
+ */
+export const isClaimed = (node: Node): boolean => claimed.has(node);
+
+/**
+ * 컨테이너의 기존 자식 노드들을 재사용하도록 하이드레이션을 시작합니다.
+ */
+export const startHydration = (container: HTMLElement): void => {
+  hydrating = true;
+  cursors.clear();
+  replaced.clear();
+  claimed.clear();
+  cursors.set(container, container.firstChild);
+  claimed.add(container);
+};
+
+/**
+ * 하이드레이션을 종료합니다.
+ */
+export const stopHydration = (): void => {
+  hydrating = false;
+  cursors.clear();
+  replaced.clear();
+  claimed.clear();
+};
+
+/**
+ * 경계 컴포넌트가 렌더링을 시작할 때의 하이드레이션 위치를 저장합니다.
+ */
+export const saveHydrationState = (): HydrationSnapshot | undefined => {
+  if (!hydrating) {
+    return undefined;
+  }
+  return { cursors: new Map(cursors), replaced: new Map(replaced) };
+};
+
+/**
+ * 경계가 하위 트리를 버리고 fallback을 렌더링할 때, 버려진 하위 트리가 재사용하거나 교체한 서버 노드들을
+ * fallback이 다시 하이드레이션할 수 있도록 저장해 둔 위치로 되돌립니다.
+ */
+export const restoreHydrationState = (snapshot: HydrationSnapshot): void => {
+  cursors = new Map(snapshot.cursors);
+  replaced = new Map(snapshot.replaced);
+};
+
+/**
+ * 부모의 커서에서 주석 노드(인접한 텍스트 사이의 구분 주석 등)를 건너뛴 다음 후보 노드를 반환합니다.
+ */
+const getCandidate = (parentDom: Node): ChildNode | null => {
+  let candidate = cursors.get(parentDom) ?? null;
+  while (candidate && candidate.nodeType === Node.COMMENT_NODE) {
+    candidate = candidate.nextSibling;
+  }
+  return candidate;
+};
+
+/**
+ * 서버 HTML과 일치하지 않는 후보 노드를 클라이언트에서 새로 만든 노드로 교체하도록 기록합니다.
+ * 새 노드는 커밋할 때 형제 노드들 사이에 삽입되고, 교체된 노드는 부모의 하이드레이션이 끝날 때 제거됩니다.
+ */
+const replaceCandidate = (parentDom: Node, candidate: ChildNode): void => {
+  cursors.set(parentDom, candidate.nextSibling);
+  replaced.set(parentDom, [...(replaced.get(parentDom) ?? []), candidate]);
+};
+
+/**
+ * 서버에서 렌더링된 요소의 속성이 props와 일치하는지 확인합니다.
+ */
+const checkAttributes = (dom: Element, props: Record<string, any>): void => {
+  Object.keys(props).forEach((key) => {
+    const value = props[key];
+    if (propertyKeys.has(key) || typeof value === "function") {
+      return;
+    }
+
+    const name = key === "className" ? "class" : getAttributeName(key);
+    const expected = value == null || value === false ? null : value === true ? "" : String(value);
+    const actual = dom.getAttribute(name);
+    if (actual !== expected) {
+      warnMismatch(
+        `prop \`${key}\` did not match. Server: ${JSON.stringify(actual)} Client: ${JSON.stringify(expected)}`,
+      );
+    }
+  });
+};
+
+/**
+ * HOST 노드에 해당하는 서버 렌더링 요소를 찾아 재사용합니다.
+ * 태그가 다르거나 요소가 없으면 경고하고, 그 하위 트리는 클라이언트에서 새로 렌더링합니다.
+ * DOM은 변경하지 않으며, 새로 만든 요소는 재조정기가 커밋할 때 삽입하도록 기록합니다.
+ */
+export const hydrateElement = (parentDom: HTMLElement, node: VNode): HTMLElement => {
+  const type = node.type as string;
+  const props = node.props ?? {};
+
+  // 재사용하지 않는 부모(새로 만든 요소, 포털 컨테이너 등)의 자식은 새로 만듦
+  if (!claimed.has(parentDom)) {
+    return createDomElement(parentDom, type);
+  }
+
+  const candidate = getCandidate(parentDom);
+  if (candidate instanceof Element && candidate.localName === type) {
+    cursors.set(parentDom, candidate.nextSibling);
+    claimed.add(candidate);
+    // innerHTML이나 textarea의 내용은 자식 VNode로 관리되지 않으므로 하이드레이션하지 않음
+    if (props.dangerouslySetInnerHTML == null && type !== "textarea") {
+      cursors.set(candidate, candidate.firstChild);
+    }
+    checkAttributes(candidate, props);
+    return candidate as HTMLElement;
+  }
+
+  warnMismatch(
+    `expected server HTML to contain <${type}> in <${parentDom.localName}>, but found ${describeNode(candidate)}.`,
+  );
+  if (candidate) {
+    replaceCandidate(parentDom, candidate);
+  }
+  return createDomElement(parentDom, type);
+};
+
+/**
+ * TEXT 노드에 해당하는 서버 렌더링 텍스트 노드를 찾아 재사용합니다.
+ * 내용이 다르면 경고하며, 재조정기가 커밋할 때 클라이언트의 텍스트로 바꾸도록 기록합니다.
+ */
+export const hydrateText = (parentDom: HTMLElement, text: string): Text => {
+  if (!claimed.has(parentDom)) {
+    return document.createTextNode(text);
+  }
+
+  // 빈 텍스트는 서버 HTML에 나타나지 않으므로 현재 위치에 새로 삽입
+  const candidate = getCandidate(parentDom);
+  if (text === "") {
+    return document.createTextNode(text);
+  }
+
+  if (candidate instanceof Text) {
+    cursors.set(parentDom, candidate.nextSibling);
+    claimed.add(candidate);
+    if (candidate.data !== text) {
+      warnMismatch(
+        `text content did not match. Server: ${JSON.stringify(candidate.data)} Client: ${JSON.stringify(text)}`,
+      );
+    }
+    return candidate;
+  }
+
+  warnMismatch(
+    `expected server HTML to contain ${JSON.stringify(text)} in <${parentDom.localName}>, but found ${describeNode(candidate)}.`,
+  );
+  return document.createTextNode(text);
+};
+
+/**
+ * 자식들의 하이드레이션이 끝난 뒤 제거해야 하는 서버 렌더링 노드들(교체된 노드와 대응되지 않고 남은 노드)을 반환합니다.
+ */
+export const collectUnclaimedNodes = (parentDom: Node): ChildNode[] => {
+  if (!cursors.has(parentDom)) {
+    return [];
+  }
+
+  const nodes = [...(replaced.get(parentDom) ?? [])];
+  for (let node = getCandidate(parentDom); node; node = node.nextSibling) {
+    if (node.nodeType !== Node.COMMENT_NODE) {
+      warnMismatch(
+        `did not expect server HTML to contain ${describeNode(node)} in <${(parentDom as Element).localName}>.`,
+      );
+    }
+    nodes.push(node);
+  }
+  cursors.delete(parentDom);
+  replaced.delete(parentDom);
+  return nodes;
+};
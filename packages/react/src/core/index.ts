@@ -1,5 +1,12 @@
 export * from "./types";
 export { Fragment } from "./constants";
 export { createElement } from "./elements";
-export { useState, useEffect } from "./hooks";
-export { setup } from "./setup";
+export { createPortal } from "./portal";
+export { domOperations } from "./dom";
+export { useState, useReducer, useContext, useEffect, useLayoutEffect } from "./hooks";
+export { createContext } from "./createContext";
+export { ErrorBoundary, type ErrorBoundaryProps } from "./errorBoundary";
+export { Suspense, lazy, type SuspenseProps } from "./suspense";
+export { setup, hydrate, renderRoot, unmountRoot } from "./setup";
+export { flushSync, batchedUpdates } from "./render";
+export { startTransition, useTransition, useDeferredValue } from "./transition";
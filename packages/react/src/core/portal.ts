@@ -0,0 +1,23 @@
+import { PORTAL } from "./constants";
+import { createElement } from "./elements";
+import { VNode } from "./types";
+
+/**
+ * 자식들을 부모 DOM이 아닌 다른 DOM 컨테이너에 렌더링하는 VNode를 생성합니다.
+ * 렌더링 위치만 바뀔 뿐, 인스턴스 트리에서는 그대로 자식으로 남아 훅, 이펙트, 컨텍스트를 공유합니다.
+ *
+ * @param children - 렌더링할 자식 VNode
+ * @param container - 자식들이 삽입될 DOM 컨테이너
+ * @param key - 형제들 사이에서 포털을 식별할 key
+ */
+export const createPortal = (
+  children: VNode | VNode[] | null,
+  container: HTMLElement,
+  key: string | number | null = null,
+): VNode => {
+  if (!container) {
+    throw new Error("Target container is not a DOM element");
+  }
+
+  return createElement(PORTAL, { key, container }, children);
+};
@@ -1,206 +1,657 @@
 import { context } from "./context";
-import { Fragment, NodeTypes, TEXT_ELEMENT } from "./constants";
-import { Instance, VNode } from "./types";
-import { getFirstDomFromChildren, insertInstance, removeInstance, setDomProps, updateDomProps } from "./dom";
+import { EffectTypes, Fragment, NodeType, NodeTypes, PORTAL, TEXT_ELEMENT } from "./constants";
+import { FunctionComponent, Instance, PendingWork, VNode } from "./types";
+import { createDomElement, setDomProps } from "./dom";
 import { createChildPath } from "./elements";
-import { isEmptyValue } from "../utils";
+import { setDomInstance } from "./events";
+import { syncSelectValue } from "./controlled";
+import {
+  collectUnclaimedNodes,
+  hydrateElement,
+  hydrateText,
+  isClaimed,
+  isHydrating,
+  restoreHydrationState,
+  saveHydrationState,
+} from "./hydration";
+import { captureError } from "./errorBoundary";
+import { suspend } from "./suspense";
+import { isEmptyValue, isThenable } from "../utils";
 
 /**
- * 이전 인스턴스와 새로운 VNode를 비교하여 DOM을 업데이트하는 재조정 과정을 수행합니다.
+ * 노드가 재조정할 자식들을 반환합니다.
+ * dangerouslySetInnerHTML을 사용하는 HOST 요소는 내용을 innerHTML이 관리하므로 자식을 재조정하지 않습니다.
+ */
+const getChildNodes = (node: VNode): VNode[] => {
+  const { children = [], dangerouslySetInnerHTML } = node.props ?? {};
+
+  if (typeof node.type === "string" && dangerouslySetInnerHTML != null) {
+    if (children.length > 0) {
+      throw new Error("Can only set one of `children` or `props.dangerouslySetInnerHTML`.");
+    }
+    return [];
+  }
+
+  return children;
+};
+
+/**
+ * VNode의 타입으로 인스턴스의 종류를 결정합니다.
+ */
+const getKind = (type: VNode["type"]): NodeType => {
+  if (type === TEXT_ELEMENT) {
+    return NodeTypes.TEXT;
+  }
+  if (type === Fragment) {
+    return NodeTypes.FRAGMENT;
+  }
+  if (type === PORTAL) {
+    return NodeTypes.PORTAL;
+  }
+  if (typeof type === "function") {
+    return NodeTypes.COMPONENT;
+  }
+  return NodeTypes.HOST;
+};
+
+/**
+ * 이전 인스턴스를 새로운 VNode로 재사용할 수 있는지 확인합니다.
+ * 타입과 키가 같아야 하며, 포털은 대상 컨테이너도 같아야 합니다.
+ */
+const canReuse = (instance: Instance, node: VNode): boolean =>
+  instance.node.type === node.type &&
+  instance.node.key === node.key &&
+  (node.type !== PORTAL || instance.node.props.container === node.props.container);
+
+/**
+ * 새로운 VNode에 대한 인스턴스를 생성합니다.
+ * DOM 노드는 인스턴스가 렌더링될 때 만들어지고, 커밋될 때 문서에 삽입됩니다.
+ */
+const createInstance = (node: VNode, path: string, parent: Instance | null, index: number): Instance => ({
+  kind: getKind(node.type),
+  dom: null,
+  node,
+  children: [],
+  key: node.key,
+  path,
+  pending: { node, path, parent, index, children: [], isNew: true },
+});
+
+/**
+ * 재사용할 인스턴스에 이번 렌더링에서 반영할 VNode와 위치를 기록합니다.
+ */
+const stageInstance = (instance: Instance, node: VNode, path: string, parent: Instance | null, index: number) => {
+  instance.pending = { node, path, parent, index, children: [], isNew: false };
+  return instance;
+};
+
+/**
+ * 인스턴스의 자식 DOM 노드들이 삽입될 부모 DOM을 찾습니다.
+ * HOST는 자신의 DOM, PORTAL은 대상 컨테이너이고, 그 외에는 가장 가까운 조상을 따르며 루트는 컨테이너를 사용합니다.
+ * 렌더 단계에서는 이번 렌더링의 부모를, 커밋 이후에는 반영된 부모를 따라갑니다.
+ */
+export const getHostParentDom = (instance: Instance | null): HTMLElement => {
+  for (let current = instance; current; current = current.pending ? current.pending.parent : (current.parent ?? null)) {
+    if (current.kind === NodeTypes.HOST) {
+      return current.dom as HTMLElement;
+    }
+    if (current.kind === NodeTypes.PORTAL) {
+      return (current.pending?.node ?? current.node).props.container;
+    }
+  }
+  return context.root.container!;
+};
+
+/**
+ * 이번 렌더링에서 렌더링을 시작할 인스턴스들을 준비하고, 첫 번째 작업 단위로 이동합니다.
+ * 루트 노드가 바뀌었거나 아직 마운트되지 않았다면 루트부터 렌더링하고,
+ * 그렇지 않으면 업데이트된 컴포넌트들의 하위 트리만 렌더링하여 관련 없는 컴포넌트는 실행하지도, DOM을 비교하지도 않습니다.
  *
- * @param parentDom - 부모 DOM 요소
- * @param instance - 이전 렌더링의 인스턴스
- * @param node - 새로운 VNode
- * @param path - 현재 노드의 고유 경로
- * @returns 업데이트되거나 새로 생성된 인스턴스
+ * @param fromRoot - 업데이트된 컴포넌트가 아니라 루트부터 렌더링할지 여부
  */
-export const reconcile = (
-  parentDom: HTMLElement,
-  instance: Instance | null,
-  node: VNode | null,
-  path: string,
-): Instance | null => {
-  // 1. 새 노드가 null이면 기존 인스턴스를 언마운트 (unmount)
-  if (node === null || isEmptyValue(node)) {
+export const prepareWork = (fromRoot: boolean): void => {
+  const { work, root } = context;
+  work.fromRoot = fromRoot || !root.instance || root.node !== root.instance.node;
+
+  if (work.fromRoot) {
+    work.root = prepareRoot();
+    work.scopes = work.root ? [work.root] : [];
+  } else {
+    work.root = root.instance;
+    work.scopes = getUpdatedInstances();
+    for (const instance of work.scopes) {
+      const parent = instance.parent ?? null;
+      stageInstance(instance, instance.node, instance.path, parent, parent ? parent.children.indexOf(instance) : 0);
+    }
+  }
+
+  work.scope = null;
+  work.next = beginNextScope();
+};
+
+/**
+ * 업데이트된 컴포넌트 인스턴스들 중 다른 업데이트된 인스턴스의 하위 트리에 속하지 않는 것들을 위에서 아래 순서로 반환합니다.
+ * 하위 트리에 속한 인스턴스는 조상을 렌더링할 때 함께 렌더링되므로 제외합니다.
+ */
+const getUpdatedInstances = (): Instance[] => {
+  const { root, work } = context;
+  const updated = new Set<Instance>();
+  work.pendingPaths.forEach((path) => {
+    const instance = root.instances.get(path);
     if (instance) {
-      unmount(instance);
+      updated.add(instance);
+    }
+  });
+
+  const scopes: Array<{ instance: Instance; depth: number }> = [];
+  for (const instance of updated) {
+    let depth = 0;
+    let current = instance.parent ?? null;
+    while (current && !updated.has(current)) {
+      depth++;
+      current = current.parent ?? null;
+    }
+    if (!current) {
+      scopes.push({ instance, depth });
+    }
+  }
+
+  return scopes.sort((a, b) => a.depth - b.depth).map(({ instance }) => instance);
+};
+
+/**
+ * 다음으로 렌더링할 하위 트리의 시작 인스턴스로 이동합니다.
+ * 컴포넌트 스택을 시작 인스턴스의 조상 컴포넌트들로 채워, 하위 트리의 useContext가 조상의 Provider를 찾을 수 있도록 합니다.
+ *
+ * @returns 다음 하위 트리의 시작 인스턴스 (모든 하위 트리의 렌더링이 끝났으면 null)
+ */
+const beginNextScope = (): Instance | null => {
+  const { work, hooks } = context;
+  const scope = work.scopes[work.scope ? work.scopes.indexOf(work.scope) + 1 : 0] ?? null;
+  work.scope = scope;
+
+  hooks.componentStack = [];
+  for (let current = scope?.parent ?? null; current; current = current.parent ?? null) {
+    if (current.kind === NodeTypes.COMPONENT) {
+      hooks.componentStack.unshift(current.path);
     }
+  }
+  return scope;
+};
+
+/**
+ * 루트 VNode를 이전 루트 인스턴스와 비교하여 렌더링을 시작할 루트 인스턴스를 준비합니다.
+ *
+ * @returns 렌더링할 루트 인스턴스 (렌더링할 노드가 없으면 null)
+ */
+const prepareRoot = (): Instance | null => {
+  const { instance, node } = context.root;
+  const { effectList } = context.work;
+
+  if (instance && node && !isEmptyValue(node) && canReuse(instance, node)) {
+    return stageInstance(instance, node, "0", null, 0);
+  }
+
+  if (instance) {
+    effectList.push({ type: EffectTypes.DELETION, instance });
+  }
+  if (!node || isEmptyValue(node)) {
     return null;
   }
 
-  // 2. 기존 인스턴스가 없으면 새로 마운트 (mount)
-  if (instance === null) {
-    return mount(parentDom, node, path);
+  const root = createInstance(node, "0", null, 0);
+  // 하이드레이션 중에는 재사용하거나 새로 만든 노드가 이미 제자리에 있으므로 삽입하지 않음
+  if (!isHydrating()) {
+    effectList.push({ type: EffectTypes.PLACEMENT, instance: root });
+  }
+  return root;
+};
+
+/**
+ * 하나의 인스턴스를 렌더링하고, 다음에 처리할 인스턴스를 반환합니다.
+ * 자식이 있으면 첫 번째 자식으로 내려가고, 없으면 렌더링을 마친 뒤 다음 형제나 조상의 형제로 이동합니다.
+ * 렌더링 중 던져진 에러나 thenable은 가장 가까운 경계 컴포넌트가 잡아 fallback을 렌더링하며, 경계가 없으면 전파됩니다.
+ *
+ * @returns 다음 작업 단위 (트리의 렌더링이 끝났으면 null)
+ */
+export const performUnitOfWork = (instance: Instance): Instance | null => {
+  try {
+    beginWork(instance);
+  } catch (error) {
+    return recoverFromError(instance, error);
   }
 
-  // 3. 타입이나 키가 다르면 기존 인스턴스를 제거하고 새로 마운트 (replace)
-  if (instance.node.type !== node.type || instance.node.key !== node.key) {
-    unmount(instance);
-    return mount(parentDom, node, path);
+  // 렌더링을 건너뛴 인스턴스의 자식들은 방문하지 않음
+  const { skipped, children } = instance.pending!;
+  const child = skipped ? null : children[0];
+  if (child) {
+    return child;
   }
 
-  // 4. 타입과 키가 같으면 인스턴스를 업데이트 (update)
-  return update(parentDom, instance, node, path);
+  for (let current: Instance | null = instance; current; ) {
+    completeWork(current);
+    // 하위 트리의 시작 인스턴스까지 마쳤으면 다음 하위 트리로 이동
+    if (current === context.work.scope) {
+      return beginNextScope();
+    }
+    const { parent, index }: PendingWork = current.pending!;
+    const sibling = parent?.pending!.children[index + 1];
+    if (sibling) {
+      return sibling;
+    }
+    current = parent;
+  }
+  return null;
 };
 
 /**
- * 새로운 VNode를 마운트하여 인스턴스를 생성하고 DOM에 추가합니다.
+ * 인스턴스의 렌더링을 시작합니다.
+ * 새 인스턴스라면 문서에 연결되지 않은 DOM 노드를 만들고, 기존 인스턴스라면 커밋할 때 반영할 변경 사항을 기록한 뒤 자식들을 재조정합니다.
  */
-const mount = (parentDom: HTMLElement, node: VNode, path: string): Instance => {
-  const { type, props } = node;
+const beginWork = (instance: Instance): void => {
+  const { node, isNew } = instance.pending!;
 
-  // 노드 타입 결정
-  let kind: Instance["kind"];
-  let dom: HTMLElement | Text | null = null;
+  if (canSkipRender(instance)) {
+    bailOut(instance);
+    return;
+  }
 
-  // TEXT_ELEMENT: 텍스트 노드
-  if (type === TEXT_ELEMENT) {
-    kind = NodeTypes.TEXT;
-    dom = document.createTextNode(props?.nodeValue ?? "");
-  }
-  // Fragment: 여러 자식을 그룹화하는 가상 노드
-  else if (type === Fragment) {
-    kind = NodeTypes.FRAGMENT;
-    dom = null; // Fragment는 실제 DOM 노드를 갖지 않음
-  }
-  // 함수형 컴포넌트
-  else if (typeof type === "function") {
-    kind = NodeTypes.COMPONENT;
-    dom = null; // 컴포넌트도 실제 DOM 노드를 갖지 않음
-  }
-  // 일반 HTML 요소 (div, span 등)
-  else {
-    kind = NodeTypes.HOST;
-    dom = document.createElement(type as string);
-    // DOM 요소의 속성 설정
-    setDomProps(dom as HTMLElement, props);
-  }
-
-  // 인스턴스 생성
-  const instance: Instance = {
-    kind,
-    dom,
-    node,
-    children: [],
-    key: node.key,
-    path,
-  };
-
-  // 자식들을 재조정
-  // props가 없을 수 있으므로 옵셔널 체이닝 사용
-  reconcileChildren(parentDom, instance, props?.children ?? [], path);
+  switch (instance.kind) {
+    case NodeTypes.COMPONENT:
+      beginComponent(instance);
+      return;
+    case NodeTypes.TEXT:
+      beginText(instance);
+      return;
+    case NodeTypes.HOST:
+      beginHost(instance);
+      break;
+    case NodeTypes.PORTAL:
+      // 포털의 자식들은 부모와 다른 컨테이너에 삽입되므로, 새 포털은 커밋할 때 자식들을 직접 삽입
+      if (isNew) {
+        context.work.effectList.push({ type: EffectTypes.PLACEMENT, instance });
+      }
+      break;
+  }
 
-  return instance;
+  reconcileChildren(instance, getChildNodes(node));
 };
 
 /**
- * 기존 인스턴스를 새로운 VNode로 업데이트합니다.
+ * 인스턴스의 렌더링을 건너뛸 수 있는지 확인합니다.
+ * 이전 렌더링과 같은 VNode(같은 참조)이거나, memo로 감싼 컴포넌트의 equals가 props가 같다고 판단하면
+ * 이전 렌더링 결과를 그대로 사용할 수 있습니다. 단, 컴포넌트 자신에게 반영할 업데이트가 있으면 다시 렌더링합니다.
  */
-const update = (parentDom: HTMLElement, instance: Instance, node: VNode, path: string): Instance => {
-  const { props } = node;
+const canSkipRender = (instance: Instance): boolean => {
+  const { node, path, isNew } = instance.pending!;
+  if (isNew || path !== instance.path || context.work.pendingPaths.has(path)) {
+    return false;
+  }
+  if (node === instance.node) {
+    return true;
+  }
 
-  // 이전 props를 먼저 저장 (instance.node를 업데이트하기 전에)
-  const prevProps = instance.node.props;
+  const { equals } = node.type as FunctionComponent<Record<string, unknown>>;
+  return (
+    instance.kind === NodeTypes.COMPONENT &&
+    !!equals &&
+    node.ref === instance.node.ref &&
+    equals(instance.node.props, node.props)
+  );
+};
 
-  // 노드 정보 업데이트
-  instance.node = node;
-  instance.path = path;
+/**
+ * 이전 렌더링 결과를 그대로 사용하여 인스턴스의 렌더링을 건너뜁니다.
+ * 자손 중에 다시 렌더링해야 하는 컴포넌트가 있으면 자식들을 이전 VNode 그대로 다시 방문하여, 그 컴포넌트까지 내려갑니다.
+ * 그렇지 않으면 하위 트리 전체를 방문하지 않습니다.
+ */
+const bailOut = (instance: Instance): void => {
+  const pending = instance.pending!;
+  const { hooks, work } = context;
 
-  // TEXT 타입: 텍스트 내용 업데이트
-  if (instance.kind === NodeTypes.TEXT && instance.dom) {
-    const textNode = instance.dom as Text;
-    const newNodeValue = props?.nodeValue ?? "";
-    if (textNode.nodeValue !== newNodeValue) {
-      textNode.nodeValue = newNodeValue;
+  // 자손들이 useContext로 조상의 Provider를 찾을 수 있도록 렌더링할 때와 같이 컴포넌트 스택에 추가 (completeWork에서 제거됨)
+  if (instance.kind === NodeTypes.COMPONENT) {
+    hooks.componentStack.push(pending.path);
+    hooks.visited.add(pending.path);
+    setCheckpoint(instance);
+  }
+
+  const children = instance.children.filter((child): child is Instance => child !== null);
+  const prefix = `${pending.path}.`;
+  if ([...work.pendingPaths].some((path) => path.startsWith(prefix))) {
+    pending.children = children.map((child, index) => stageInstance(child, child.node, child.path, instance, index));
+    return;
+  }
+
+  pending.children = children;
+  pending.skipped = true;
+  skipSubtree(children);
+};
+
+/**
+ * 렌더링을 건너뛴 하위 트리의 컴포넌트들을 방문한 것으로 기록하여 훅 상태가 정리되지 않도록 합니다.
+ * 중단된 이전 렌더링에서 기록된 작업이 남아 있으면 함께 지웁니다.
+ */
+const skipSubtree = (children: Array<Instance | null>): void => {
+  for (const child of children) {
+    if (!child) {
+      continue;
+    }
+    child.pending = null;
+    if (child.kind === NodeTypes.COMPONENT) {
+      context.hooks.visited.add(child.path);
     }
+    skipSubtree(child.children);
   }
+};
 
-  // HOST 타입 (일반 DOM 요소): 속성 업데이트
-  if (instance.kind === NodeTypes.HOST && instance.dom) {
-    // 이전 props와 새 props를 비교하여 업데이트
-    updateDomProps(instance.dom as HTMLElement, prevProps, props);
+/**
+ * 하이드레이션 중 서버 HTML과 일치하지 않아 새로 만든 노드를, 커밋할 때 재사용한 서버 노드들 사이에 삽입하도록 기록합니다.
+ * 새로 만든 부모의 자식은 부모가 렌더링을 마칠 때 함께 추가되므로 기록하지 않습니다.
+ */
+const placeHydratedNode = (instance: Instance, parentDom: HTMLElement): void => {
+  if (!isClaimed(instance.dom!) && isClaimed(parentDom)) {
+    context.work.effectList.push({ type: EffectTypes.PLACEMENT, instance });
   }
+};
 
-  // 자식들을 재조정
-  // props가 없을 수 있으므로 옵셔널 체이닝 사용
-  reconcileChildren(parentDom, instance, props?.children ?? [], path);
+/**
+ * 텍스트 노드를 만들거나, 바뀐 텍스트를 커밋할 때 반영하도록 기록합니다.
+ */
+const beginText = (instance: Instance): void => {
+  const { node, isNew } = instance.pending!;
+  const text = node.props?.nodeValue ?? "";
+
+  if (isNew) {
+    const parentDom = getHostParentDom(instance.pending!.parent);
+    // 하이드레이션 중이면 서버에서 렌더링된 텍스트 노드를 재사용
+    const dom = isHydrating() ? hydrateText(parentDom, text) : document.createTextNode(text);
+    instance.dom = dom;
+    setDomInstance(dom, instance);
+
+    if (isHydrating()) {
+      placeHydratedNode(instance, parentDom);
+      // 재사용한 텍스트 노드의 내용이 다르면 커밋할 때 클라이언트의 텍스트로 바꿈
+      if (isClaimed(dom) && dom.data !== text) {
+        context.work.effectList.push({ type: EffectTypes.UPDATE, instance, prevProps: { nodeValue: dom.data } });
+      }
+    }
+    return;
+  }
 
-  return instance;
+  const prevProps = instance.node.props;
+  if ((prevProps?.nodeValue ?? "") !== text) {
+    context.work.effectList.push({ type: EffectTypes.UPDATE, instance, prevProps });
+  }
 };
 
 /**
- * 인스턴스를 언마운트하고 DOM에서 제거합니다.
+ * DOM 요소를 만들거나, 이전 props와 새 props의 차이와 바뀐 ref를 커밋할 때 반영하도록 기록합니다.
+ * 새 요소의 props는 자식들의 렌더링이 끝난 뒤 completeWork에서 설정합니다.
  */
-const unmount = (instance: Instance): void => {
-  // 자식들을 먼저 언마운트
-  for (const child of instance.children) {
-    if (child) {
-      unmount(child);
+const beginHost = (instance: Instance): void => {
+  const { node, isNew } = instance.pending!;
+  const { effectList } = context.work;
+
+  if (isNew) {
+    const parentDom = getHostParentDom(instance.pending!.parent);
+    // 부모 DOM의 네임스페이스를 따라 생성 (svg, math 하위 트리)
+    // 하이드레이션 중이면 서버에서 렌더링된 요소를 재사용
+    const dom = isHydrating() ? hydrateElement(parentDom, node) : createDomElement(parentDom, node.type as string);
+    instance.dom = dom;
+    // 이벤트 target에서 인스턴스를 찾을 수 있도록 DOM 노드와 인스턴스를 연결
+    setDomInstance(dom, instance);
+    if (isHydrating()) {
+      placeHydratedNode(instance, parentDom);
     }
+
+    // ref가 있으면 커밋 단계에서 DOM 노드를 연결하도록 기록
+    if (node.ref) {
+      effectList.push({ type: EffectTypes.REF, instance, prevRef: undefined });
+    }
+    return;
   }
 
-  // DOM에서 제거
-  removeInstance(instance);
+  // 자식들의 삽입보다 먼저 반영되도록 렌더링을 시작할 때 기록 (innerHTML에서 자식으로 전환되는 경우 등)
+  const { props: prevProps, ref: prevRef } = instance.node;
+  effectList.push({ type: EffectTypes.UPDATE, instance, prevProps });
+
+  // ref가 바뀌었으면 커밋 단계에서 이전 ref를 해제하고 새 ref를 연결하도록 기록
+  if (prevRef !== node.ref) {
+    effectList.push({ type: EffectTypes.REF, instance, prevRef });
+  }
+};
 
-  // 훅 정리는 cleanupUnusedHooks에서 처리됨
+/**
+ * 경계 컴포넌트라면 하위 트리를 버리고 fallback을 렌더링할 수 있도록 현재까지의 작업 위치를 기억해 둡니다.
+ */
+const setCheckpoint = (instance: Instance): void => {
+  const component = instance.pending!.node.type as FunctionComponent<Record<string, unknown>>;
+  if (component.isSuspense || component.isErrorBoundary) {
+    const { completed, effectList } = context.work;
+    instance.pending!.checkpoint = {
+      completed: completed.length,
+      effects: effectList.length,
+      hydration: saveHydrationState(),
+    };
+  }
 };
 
 /**
- * 자식 노드들을 재조정합니다.
+ * 컴포넌트 함수를 실행하고 반환된 VNode를 자식으로 재조정합니다.
+ * 컴포넌트는 렌더링을 마칠 때까지 컴포넌트 스택에 남아, 자손들이 useContext로 조상의 값을 읽을 수 있습니다.
  */
-const reconcileChildren = (parentDom: HTMLElement, instance: Instance, children: VNode[], parentPath: string): void => {
-  const oldChildren = instance.children;
-  const newChildren: (Instance | null)[] = [];
+const beginComponent = (instance: Instance): void => {
+  const { node, path } = instance.pending!;
+  const component = node.type as FunctionComponent<Record<string, unknown>>;
 
   // 컴포넌트 스택에 현재 경로 추가 (훅을 위해)
+  context.hooks.componentStack.push(path);
+  context.hooks.visited.add(path);
+
+  setCheckpoint(instance);
+
+  // 커서를 먼저 리셋 (컴포넌트 함수 실행 전에!)
+  // 컴포넌트 함수 실행 중 훅들이 이 커서를 사용하므로 반드시 먼저 초기화해야 함
+  context.hooks.cursor.set(path, 0);
+
+  // 컴포넌트 함수 실행하여 실제 렌더링할 VNode 얻기
+  // props가 없을 수 있으므로 빈 객체를 기본값으로 사용
+  // forwardRef 컴포넌트에는 VNode에서 분리해 둔 ref를 props로 다시 전달합니다
+  const props = node.props || {};
+  const componentProps = component.isForwardRef ? { ...props, ref: node.ref ?? null } : props;
+  const componentNode = component(componentProps);
+
+  // 컴포넌트의 결과를 하나의 자식으로 재조정
+  // 결과 노드에 key가 있으면 경로에 반영하여, key가 바뀌면 하위 훅 상태도 새로 시작되도록 합니다
+  reconcileChildren(instance, componentNode ? [componentNode] : []);
+};
+
+/**
+ * 인스턴스의 렌더링을 마칩니다.
+ * 자식들의 렌더링이 모두 끝난 뒤에 호출되므로, 자식에 의존하는 작업(select의 value 반영 등)을 여기서 처리합니다.
+ * 새 HOST 요소는 아직 문서에 연결되지 않았으므로 자식 DOM 노드와 초기 props를 바로 반영합니다.
+ */
+const completeWork = (instance: Instance): void => {
+  const { node, isNew, children } = instance.pending!;
+  context.work.completed.push(instance);
+
   if (instance.kind === NodeTypes.COMPONENT) {
-    context.hooks.componentStack.push(parentPath);
-    context.hooks.visited.add(parentPath);
-
-    // 커서를 먼저 리셋 (컴포넌트 함수 실행 전에!)
-    // 컴포넌트 함수 실행 중 훅들이 이 커서를 사용하므로 반드시 먼저 초기화해야 함
-    context.hooks.cursor.set(parentPath, 0);
-
-    // 컴포넌트 함수 실행하여 실제 렌더링할 VNode 얻기
-    // props가 없을 수 있으므로 빈 객체를 기본값으로 사용
-    const componentNode = (instance.node.type as React.ComponentType)(instance.node.props || {});
-
-    // 컴포넌트의 결과를 자식으로 재조정
-    const childPath = createChildPath(parentPath, null, 0, componentNode?.type, [componentNode!]);
-    const oldChild = oldChildren[0] ?? null;
-    const childInstance = reconcile(parentDom, oldChild, componentNode, childPath);
-
-    if (childInstance) {
-      newChildren.push(childInstance);
-
-      // 컴포넌트의 자식이 변경되었을 때 DOM 삽입
-      // 1. oldChild가 없음 (새로 추가)
-      // 2. childInstance !== oldChild (mount로 새 인스턴스 생성)
-      if (!oldChild || childInstance !== oldChild) {
-        insertInstance(parentDom, childInstance);
+    context.hooks.componentStack.pop();
+    return;
+  }
+  if (instance.kind !== NodeTypes.HOST || !isNew) {
+    return;
+  }
+
+  const dom = instance.dom as HTMLElement;
+
+  // 재사용한 서버 렌더링 요소는 이미 문서에 있으므로, 대응되지 않은 자식 노드의 정리와 props 반영을 커밋할 때 처리
+  if (isHydrating() && isClaimed(dom)) {
+    context.work.effectList.push({ type: EffectTypes.HYDRATION, instance, unclaimed: collectUnclaimedNodes(dom) });
+    return;
+  }
+
+  appendAllChildren(dom, children);
+  setDomProps(dom, node.props);
+
+  // select의 value는 option 자식들이 추가된 뒤에 적용
+  if (dom instanceof HTMLSelectElement) {
+    syncSelectValue(dom, node.props.value ?? node.props.defaultValue);
+  }
+};
+
+/**
+ * 새 HOST 요소에 자식 인스턴스들의 최상위 DOM 노드들을 순서대로 추가합니다.
+ * FRAGMENT와 COMPONENT는 그 자식들을 대신 추가하고, PORTAL의 자식들은 다른 컨테이너에 삽입되므로 건너뜁니다.
+ */
+const appendAllChildren = (parentDom: HTMLElement, children: Instance[]): void => {
+  for (const child of children) {
+    if (child.kind === NodeTypes.HOST || child.kind === NodeTypes.TEXT) {
+      parentDom.appendChild(child.dom!);
+    } else if (child.kind !== NodeTypes.PORTAL) {
+      appendAllChildren(parentDom, child.pending!.children);
+    }
+  }
+};
+
+/**
+ * 렌더링 중 던져진 에러나 thenable을 가장 가까운 경계 컴포넌트에 전달합니다.
+ * 경계가 처리하면 그 하위 트리에서 진행한 작업을 모두 버리고 경계부터 다시 렌더링하여 fallback을 렌더링합니다.
+ * DOM 변경은 커밋 전까지 반영되지 않으므로, 버려진 하위 트리는 화면에 나타나지 않습니다.
+ *
+ * @returns 다시 렌더링할 경계 인스턴스
+ */
+const recoverFromError = (instance: Instance, error: unknown): Instance => {
+  // 렌더링 중인 하위 트리 안에서만 경계를 찾습니다 (벗어나면 루트부터 다시 렌더링하여 처리)
+  for (
+    let current: Instance | null = instance;
+    current;
+    current = current === context.work.scope ? null : current.pending!.parent
+  ) {
+    if (current.kind !== NodeTypes.COMPONENT) {
+      continue;
+    }
+
+    // 던져진 thenable은 Suspense가, 에러는 ErrorBoundary가 처리합니다
+    // 경계 컴포넌트가 아니거나 이미 fallback을 렌더링 중이면 상위로 전파
+    const { node, path, checkpoint } = current.pending!;
+    const component = node.type as FunctionComponent<Record<string, unknown>>;
+    const hooks = context.hooks.state.get(path);
+    const captured = isThenable(error)
+      ? component.isSuspense && suspend(path, hooks, error)
+      : component.isErrorBoundary && captureError(path, hooks, error);
+    if (!captured || !checkpoint) {
+      continue;
+    }
+
+    // 경계가 렌더링을 시작한 시점으로 작업 목록과 컴포넌트 스택을 되돌립니다
+    const { work, hooks: hooksContext } = context;
+    work.completed.length = checkpoint.completed;
+    work.effectList.length = checkpoint.effects;
+    if (checkpoint.hydration) {
+      restoreHydrationState(checkpoint.hydration);
+    }
+    const depth = hooksContext.componentStack.lastIndexOf(path);
+    hooksContext.componentStack.length = depth;
+
+    discardSubtree(path);
+    // 이전 렌더링과 같은 VNode라도 렌더링을 건너뛰지 않고 fallback을 렌더링하도록 표시
+    work.pendingPaths.add(path);
+    return current;
+  }
+
+  throw error;
+};
+
+/**
+ * 에러로 인해 렌더링이 중단된 하위 트리의 훅 기록을 정리합니다.
+ * 해당 경로의 훅이 다음 정리 단계에서 클린업되도록 방문 기록과 예약된 이펙트, 하위 경계들이 잡은 값을 제거합니다.
+ */
+const discardSubtree = (path: string): void => {
+  const prefix = `${path}.`;
+  for (const visitedPath of [...context.hooks.visited]) {
+    if (visitedPath.startsWith(prefix)) {
+      context.hooks.visited.delete(visitedPath);
+    }
+  }
+
+  for (const capturedPath of [...context.work.captured.keys()]) {
+    if (capturedPath.startsWith(prefix)) {
+      context.work.captured.delete(capturedPath);
+    }
+  }
+
+  const { effects } = context;
+  effects.queue = effects.queue.filter((effect) => !effect.path.startsWith(prefix));
+  effects.layoutQueue = effects.layoutQueue.filter((effect) => !effect.path.startsWith(prefix));
+};
+
+/**
+ * 수열에서 가장 긴 증가 부분 수열(LIS)을 이루는 원소들의 위치를 찾습니다.
+ * 각 길이의 증가 부분 수열이 끝날 수 있는 가장 작은 값을 이진 탐색으로 갱신하고, 이전 원소를 기록해 두었다가 거슬러 올라가며 복원합니다.
+ *
+ * @param sequence - 서로 다른 정수들의 수열
+ * @returns LIS에 포함된 원소들의 위치
+ */
+const getLongestIncreasingSubsequence = (sequence: number[]): Set<number> => {
+  // tails[k]: 길이가 k + 1인 증가 부분 수열의 마지막 원소 위치
+  const tails: number[] = [];
+  const previous: number[] = new Array(sequence.length);
+
+  for (let i = 0; i < sequence.length; i++) {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (sequence[tails[middle]] < sequence[i]) {
+        low = middle + 1;
+      } else {
+        high = middle;
       }
     }
 
-    // 컴포넌트 스택에서 제거
-    context.hooks.componentStack.pop();
+    previous[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  }
 
-    instance.children = newChildren;
-    return;
+  const result = new Set<number>();
+  for (let i = tails.length > 0 ? tails[tails.length - 1] : -1; i !== -1; i = previous[i]) {
+    result.add(i);
   }
+  return result;
+};
 
-  // Fragment나 Host 노드의 자식들 처리
-  const parentDomForChildren = instance.kind === NodeTypes.HOST ? (instance.dom as HTMLElement) : parentDom;
+/**
+ * 자식 노드들을 이전 자식 인스턴스들과 비교하여 새 자식 목록을 만듭니다.
+ * 사용되지 않는 이전 자식의 제거와, 새로 생성되었거나 위치가 바뀐 자식의 삽입은 커밋할 때 반영되도록 기록합니다.
+ * 재사용된 자식들 중 이전 순서를 유지하는 가장 긴 부분(LIS)은 그대로 두고 나머지만 옮기므로, DOM 노드의 이동이 최소가 됩니다.
+ */
+const reconcileChildren = (instance: Instance, children: VNode[]): void => {
+  const { path: parentPath, isNew } = instance.pending!;
+  const oldChildren = isNew ? [] : instance.children;
+  const newChildren: Instance[] = [];
+  const placements = new Set<Instance>();
+
+  // 재사용된 자식들을 새 순서대로, 이전 위치와 함께 기록 (이동할 자식을 찾기 위해)
+  const reusedChildren: Instance[] = [];
+  const reusedOldIndices: number[] = [];
 
   // key가 있는 자식들을 맵으로 관리 (효율적인 재사용을 위해)
   const oldChildrenByKey = new Map<string | number, Instance>();
-  for (const oldChild of oldChildren) {
-    if (oldChild?.key !== null) {
+  const oldIndices = new Map<Instance, number>();
+  oldChildren.forEach((oldChild, index) => {
+    if (!oldChild) {
+      return;
+    }
+    oldIndices.set(oldChild, index);
+    if (oldChild.key !== null) {
       oldChildrenByKey.set(oldChild.key, oldChild);
     }
-  }
+  });
 
-  // 사용된 oldChildren을 추적 (key/non-key 혼합 시 unmount 누락 방지)
-  const usedOldChildren = new Set<Instance>();
+  // 재사용된 oldChildren을 추적 (key/non-key 혼합 시 unmount 누락 방지)
+  const reusedOldChildren = new Set<Instance>();
 
   // 새 자식들을 순회하며 재조정
   for (let i = 0; i < children.length; i++) {
@@ -215,48 +666,87 @@ const reconcileChildren = (parentDom: HTMLElement, instance: Instance, children:
     let oldChild: Instance | null = null;
 
     // key가 있으면 같은 key를 가진 이전 인스턴스를 찾음
-    if (child.key) {
+    if (child.key !== null) {
       oldChild = oldChildrenByKey.get(child.key) ?? null;
-      if (oldChild) {
-        oldChildrenByKey.delete(child.key);
-        usedOldChildren.add(oldChild);
-      }
+      oldChildrenByKey.delete(child.key);
     }
     // key가 없으면 같은 인덱스의 이전 인스턴스 사용
     else {
       oldChild = oldChildren[i] ?? null;
-      if (oldChild) {
-        usedOldChildren.add(oldChild);
-      }
     }
 
-    // 재조정
-    const newChild = reconcile(parentDomForChildren, oldChild, child, childPath);
+    // 타입과 키가 같으면 재사용하고, 다르면 새로 생성 (이전 인스턴스는 아래에서 제거)
+    let newChild: Instance;
+    if (oldChild && !reusedOldChildren.has(oldChild) && canReuse(oldChild, child)) {
+      newChild = stageInstance(oldChild, child, childPath, instance, newChildren.length);
+      reusedOldChildren.add(oldChild);
+      reusedChildren.push(newChild);
+      reusedOldIndices.push(oldIndices.get(oldChild)!);
+    } else {
+      newChild = createInstance(child, childPath, instance, newChildren.length);
+      placements.add(newChild);
+    }
+    newChildren.push(newChild);
+  }
 
-    if (newChild) {
-      newChildren.push(newChild);
+  instance.pending!.children = newChildren;
 
-      // DOM 위치 조정 (key 기반 재배치 및 마운트)
-      // 다음 경우에 DOM에 삽입:
-      // 1. oldChild가 없음 (새로 추가)
-      // 2. newChild !== oldChild (mount로 새 인스턴스 생성)
-      // 3. oldChild !== oldChildren[i] (key 기반 재배치로 위치 변경)
-      if (!oldChild || newChild !== oldChild || oldChild !== oldChildren[i]) {
-        // anchor: 아직 처리되지 않은 다음 형제 중 첫 번째 DOM 노드
-        // oldChildren의 i+1 이후 자식들 중에서 첫 번째 DOM 노드를 찾음
-        const anchor = getFirstDomFromChildren(oldChildren.slice(i + 1));
-        insertInstance(parentDomForChildren, newChild, anchor);
-      }
+  // 이전 위치가 증가하는 가장 긴 부분에 속한 자식들은 서로의 순서가 유지되므로 옮기지 않고,
+  // 나머지 재사용된 자식들만 key 기반 재배치로 위치가 바뀐 것으로 보고 DOM에서 옮김
+  const stableChildren = getLongestIncreasingSubsequence(reusedOldIndices);
+  reusedChildren.forEach((child, index) => {
+    if (!stableChildren.has(index)) {
+      placements.add(child);
     }
-  }
+  });
 
   // 사용되지 않은 모든 oldChildren 제거
   // key/non-key 혼합 시에도 중간에 스킵된 것들을 모두 언마운트
+  const { effectList } = context.work;
   for (const oldChild of oldChildren) {
-    if (oldChild && !usedOldChildren.has(oldChild)) {
-      unmount(oldChild);
+    if (oldChild && !reusedOldChildren.has(oldChild)) {
+      effectList.push({ type: EffectTypes.DELETION, instance: oldChild });
     }
   }
 
-  instance.children = newChildren;
+  // 새 부모의 자식들은 부모가 렌더링을 마칠 때 함께 추가되고,
+  // 하이드레이션 중에는 재사용하거나 새로 만든 노드가 이미 제자리에 있으므로 삽입하지 않음
+  if (isNew || isHydrating()) {
+    return;
+  }
+
+  // 뒤에서부터 기록하므로, 커밋할 때 각 자식은 이미 제자리에 놓인 다음 형제의 DOM 노드 앞에 삽입됩니다
+  // 포털은 부모 DOM에 노드가 없으므로 위치가 바뀌어도 옮길 것이 없음
+  for (let i = newChildren.length - 1; i >= 0; i--) {
+    const child = newChildren[i];
+    if (placements.has(child) && child.kind !== NodeTypes.PORTAL) {
+      effectList.push({ type: EffectTypes.PLACEMENT, instance: child });
+    }
+  }
+};
+
+/**
+ * 렌더링을 마친 인스턴스들에 렌더 단계에서 계산된 값을 반영합니다.
+ * 커밋의 첫 단계로 실행되며, 이후의 DOM 변경 작업은 새 트리를 기준으로 위치를 계산합니다.
+ */
+export const finishInstances = (instances: Instance[]): void => {
+  const { instances: mounted } = context.root;
+
+  for (const instance of instances) {
+    const { node, path, children } = instance.pending!;
+    // 업데이트된 컴포넌트부터 렌더링할 수 있도록 경로로 컴포넌트 인스턴스를 찾을 수 있게 기록
+    if (instance.kind === NodeTypes.COMPONENT) {
+      if (instance.path !== path && mounted.get(instance.path) === instance) {
+        mounted.delete(instance.path);
+      }
+      mounted.set(path, instance);
+    }
+    instance.node = node;
+    instance.path = path;
+    instance.children = children;
+    instance.pending = null;
+    for (const child of children) {
+      child.parent = instance;
+    }
+  }
 };
@@ -0,0 +1,47 @@
+import { Instance, Ref } from "./types";
+
+/**
+ * 인스턴스의 DOM 노드를 ref에 연결합니다.
+ * 객체 ref는 current에 노드를 저장하고, 콜백 ref는 노드를 인자로 호출하며 반환된 클린업 함수를 기억합니다.
+ */
+export const attachRef = (instance: Instance): void => {
+  const ref = instance.node.ref;
+  if (!ref) {
+    return;
+  }
+
+  if (typeof ref === "function") {
+    const cleanup = ref(instance.dom);
+    instance.refCleanup = typeof cleanup === "function" ? cleanup : null;
+    return;
+  }
+
+  ref.current = instance.dom;
+};
+
+/**
+ * 인스턴스에 연결되어 있던 ref를 해제합니다.
+ * 콜백 ref가 클린업 함수를 반환했다면 그 함수를 실행하고, 아니라면 null을 전달합니다.
+ * 객체 ref는 current를 null로 되돌립니다.
+ *
+ * @param ref - 해제할 ref (ref가 교체되는 경우 이전 ref를 전달합니다)
+ */
+export const detachRef = (instance: Instance, ref: Ref | undefined = instance.node.ref): void => {
+  if (!ref) {
+    return;
+  }
+
+  if (instance.refCleanup) {
+    const cleanup = instance.refCleanup;
+    instance.refCleanup = null;
+    cleanup();
+    return;
+  }
+
+  if (typeof ref === "function") {
+    ref(null);
+    return;
+  }
+
+  ref.current = null;
+};
@@ -1,83 +1,295 @@
-import { context } from "./context";
-import { getFirstDom, insertInstance } from "./dom";
-import { reconcile } from "./reconciler";
-import { cleanupUnusedHooks } from "./hooks";
-import { enqueue, withEnqueue } from "../utils";
-import type { EffectHook } from "./types";
+import { context, runWithContext } from "./context";
+import { performUnitOfWork, prepareWork } from "./reconciler";
+import { commitRoot } from "./commit";
+import { getPendingPaths } from "./hooks";
+import { Priorities, Priority, runWithPriority, scheduleCallback } from "../utils";
+import type { Context } from "./types";
 
 /**
- * 루트 컴포넌트의 렌더링을 수행하는 함수입니다.
- * `enqueueRender`에 의해 스케줄링되어 호출됩니다.
+ * 한 번의 태스크에서 렌더링 작업을 진행할 수 있는 시간(ms)입니다.
+ * 이 시간을 넘기면 브라우저에 제어권을 돌려주고 다음 태스크에서 이어서 진행합니다.
+ */
+const FRAME_BUDGET = 5;
+
+/**
+ * 긴급한 렌더링이 예약되었지만 아직 커밋되지 않은 루트들입니다.
+ * 렌더링이 커밋되기 직전에 제거되며, flushSync는 이 루트들을 동기적으로 렌더링합니다.
+ */
+const pendingRoots = new Set<Context>();
+
+/**
+ * 전환 렌더링의 시작이 예약된 루트들입니다. (같은 루트에 여러 번 예약하지 않기 위해 사용)
+ */
+const scheduledTransitions = new Set<Context>();
+
+/**
+ * 진행 중인 batchedUpdates / flushSync의 중첩 깊이입니다.
+ * 0보다 크면 긴급한 렌더링의 예약을 가장 바깥의 배치가 끝날 때까지 미룹니다.
+ */
+let batchDepth = 0;
+
+/**
+ * 진행 중인 렌더링의 작업 상태를 비웁니다.
+ * 렌더링이 커밋되었거나, 잡히지 않은 에러로 버려지거나, 루트가 언마운트될 때 호출됩니다.
+ */
+export const resetWork = (): void => {
+  const { work, hooks } = context;
+  work.root = null;
+  work.next = null;
+  work.completed = [];
+  work.effectList = [];
+  work.includedUpdates = [];
+  work.scopes = [];
+  work.scope = null;
+  work.pendingPaths = new Set();
+  work.providers = new Map();
+  work.captured = new Map();
+  hooks.componentStack = [];
+};
+
+/**
+ * 새로운 렌더링을 시작하도록 작업 상태를 초기화합니다.
+ * 루트 노드가 바뀌지 않았다면 업데이트된 컴포넌트들의 하위 트리만 렌더링합니다.
+ * 진행 중이던 렌더링이 있으면 그 결과(아직 커밋되지 않은 변경 사항과 예약된 이펙트)는 버려집니다.
+ *
+ * @param priority - 렌더링의 우선순위 (이 우선순위 이하의 업데이트만 반영됩니다)
+ * @param fromRoot - 업데이트된 컴포넌트가 아니라 루트부터 렌더링할지 여부
+ */
+const prepareFreshWork = (priority: Priority, fromRoot = false): void => {
+  const { work, hooks, effects } = context;
+
+  // 중단되는 전환 렌더링의 업데이트는 아직 반영되지 않았으므로 나중에 다시 렌더링합니다
+  if (work.next && work.priority === Priorities.TRANSITION) {
+    work.transitionPending = true;
+  }
+
+  // 현재 렌더 사이클에서 방문한 경로들을 추적하기 위해 초기화
+  hooks.visited.clear();
+  hooks.componentStack = [];
+  effects.queue = [];
+  effects.layoutQueue = [];
+
+  work.completed = [];
+  work.effectList = [];
+  work.rerender = false;
+  work.priority = priority;
+  work.includedUpdates = [];
+  // 전환 렌더링은 지금까지 쌓인 모든 업데이트를 반영합니다 (렌더링 중에 새로 발생한 전환 업데이트는 다시 표시됨)
+  if (priority === Priorities.TRANSITION) {
+    work.transitionPending = false;
+  }
+  work.pendingPaths = getPendingPaths(priority);
+  work.providers = new Map();
+  work.captured = new Map();
+  prepareWork(fromRoot);
+};
+
+/**
+ * 렌더링 작업을 진행합니다. 렌더링 중 경계 컴포넌트가 잡지 못한 에러가 발생하면
+ * 진행 중인 작업을 버려 DOM이 변경되지 않은 상태로 두고 에러를 전파합니다.
+ * 업데이트된 컴포넌트의 하위 트리를 렌더링하던 중이었다면, 하위 트리 밖의 경계 컴포넌트가 처리할 수 있도록 루트부터 다시 렌더링합니다.
+ *
+ * @param shouldYield - 작업을 중단하고 제어권을 돌려줘야 하는지 확인하는 함수
+ */
+const workLoop = (shouldYield: () => boolean): void => {
+  const { work } = context;
+
+  for (;;) {
+    try {
+      // 중단되더라도 한 번에 최소 하나의 작업 단위는 진행합니다
+      while (work.next) {
+        work.next = performUnitOfWork(work.next);
+        if (shouldYield()) {
+          break;
+        }
+      }
+      return;
+    } catch (error) {
+      // 하위 트리 밖으로 전파된 에러는 조상의 경계가 처리할 수 있도록 루트부터 다시 렌더링
+      if (!work.fromRoot) {
+        prepareFreshWork(work.priority, true);
+        continue;
+      }
+
+      resetWork();
+      throw error;
+    }
+  }
+};
+
+/**
+ * 현재 컨텍스트에 설정된 루트를 처음부터 끝까지 중단 없이 렌더링하고 커밋합니다.
+ * 첫 렌더링(setup, hydrate)이나 root.render, 긴급한 업데이트처럼 바로 DOM에 반영되어야 하는 경우에 사용하며,
+ * 진행 중이던 전환 렌더링은 중단되었다가 커밋이 끝난 뒤 이 결과 위에서 다시 렌더링됩니다.
  */
 export const render = (): void => {
   // 컨테이너나 노드가 없으면 렌더링할 수 없음
   if (!context.root.container || !context.root.node) {
+    pendingRoots.delete(context);
     return;
   }
 
-  // 1. 훅 컨텍스트의 visited 집합 초기화
-  // 현재 렌더 사이클에서 방문한 경로들을 추적하기 위해 초기화
-  context.hooks.visited.clear();
-
-  // 2. reconcile 함수를 호출하여 루트 노드를 재조정
-  // 이전 인스턴스와 새 VNode를 비교하여 DOM을 업데이트
-  context.root.instance = reconcile(
-    context.root.container, // 부모 DOM 컨테이너
-    context.root.instance, // 이전 인스턴스 (null이면 초기 렌더링)
-    context.root.node, // 새로운 VNode
-    "0", // 루트 경로
-  );
-
-  // 루트 인스턴스의 첫 번째 실제 DOM 노드가 아직 삽입되지 않았으면 삽입
-  // COMPONENT나 FRAGMENT는 dom이 null이므로 getFirstDom()으로 실제 DOM 확인
-  if (context.root.instance) {
-    const firstDom = getFirstDom(context.root.instance);
-    if (firstDom && !firstDom.parentNode) {
-      insertInstance(context.root.container, context.root.instance);
-    }
+  prepareFreshWork(Priorities.URGENT);
+  workLoop(() => false);
+  finishRender();
+};
+
+/**
+ * 렌더링이 끝난 트리를 커밋합니다.
+ * 커밋 중에 예약된 업데이트(레이아웃 이펙트의 setState 등)는 다시 예약되도록 커밋하기 전에 예약 목록에서 제거하고,
+ * 커밋이 끝난 뒤에도 렌더링되지 않은 전환 업데이트가 남아 있으면 전환 렌더링을 예약합니다.
+ */
+const finishRender = (): void => {
+  const rootContext = context;
+  pendingRoots.delete(rootContext);
+  commitRoot();
+
+  if (rootContext.work.transitionPending) {
+    scheduleTransition(rootContext);
   }
+};
 
-  // 3. 사용되지 않은 훅들을 정리
-  // visited에 포함되지 않은 경로의 훅들은 더 이상 사용되지 않으므로 정리
-  cleanupUnusedHooks();
-
-  // 4. 이펙트 실행을 예약합니다 (렌더링 후 비동기로 실행)
-  // DOM 업데이트가 완전히 끝난 후 이펙트가 실행되도록 마이크로태스크 큐에 추가
-  const effectsToRun = [...context.effects.queue];
-  context.effects.queue = [];
-
-  if (effectsToRun.length > 0) {
-    enqueue(() => {
-      for (const { path, cursor } of effectsToRun) {
-        // 해당 경로의 훅 배열 가져오기
-        const hooks = context.hooks.state.get(path);
-        if (!hooks || cursor >= hooks.length) {
-          continue;
-        }
+/**
+ * 시간 예산 안에서 렌더링 작업을 진행합니다.
+ * 예산 안에 트리의 렌더링이 끝나면 커밋하고, 그렇지 않으면 다음 태스크에서 이어서 진행하도록 예약합니다.
+ * 중단된 동안에는 DOM이 변경되지 않으므로, 렌더링이 절반만 진행된 화면은 나타나지 않습니다.
+ */
+const performConcurrentWork = (): void => {
+  const deadline = performance.now() + FRAME_BUDGET;
+  workLoop(() => performance.now() >= deadline);
 
-        // 이펙트 훅 가져오기
-        const effectHook = hooks[cursor] as EffectHook;
-        if (!effectHook || effectHook.kind !== "effect") {
-          continue;
+  if (context.work.next) {
+    const rootContext = context;
+    scheduleCallback(Priorities.TRANSITION, () =>
+      runWithContext(rootContext, () => {
+        // 그 사이에 긴급한 렌더링이 끼어들었거나 루트가 언마운트되었다면 이어서 진행할 작업이 없음
+        if (rootContext.work.next) {
+          performConcurrentWork();
         }
+      }),
+    );
+    return;
+  }
 
-        // 이전 클린업 함수가 있으면 먼저 실행
-        if (effectHook.cleanup) {
-          effectHook.cleanup();
-          effectHook.cleanup = null;
-        }
+  finishRender();
+};
 
-        // 이펙트 함수 실행하고 새 클린업 함수 저장
-        const cleanup = effectHook.effect();
-        if (cleanup) {
-          effectHook.cleanup = cleanup;
-        }
+/**
+ * 예약된 긴급한 렌더링을 진행합니다.
+ * 그 사이에 flushSync로 이미 렌더링되었다면 아무것도 하지 않고, 진행 중인 전환 렌더링이 있으면 중단시킵니다.
+ */
+const performUrgentWork = (rootContext: Context): void => {
+  const { work } = rootContext;
+  if (!pendingRoots.has(rootContext) || (work.next && work.priority === Priorities.URGENT)) {
+    return;
+  }
+
+  runWithContext(rootContext, render);
+};
+
+/**
+ * 다음 태스크에서 전환 렌더링을 시작하도록 예약합니다.
+ */
+const scheduleTransition = (rootContext: Context): void => {
+  if (scheduledTransitions.has(rootContext)) {
+    return;
+  }
+
+  scheduledTransitions.add(rootContext);
+  scheduleCallback(Priorities.TRANSITION, () => {
+    scheduledTransitions.delete(rootContext);
+    const { work } = rootContext;
+    // 이미 다른 렌더링이 진행 중이면 그 렌더링이 커밋된 뒤에 다시 예약됩니다
+    if (!work.transitionPending || work.next) {
+      return;
+    }
+
+    runWithContext(rootContext, () => {
+      // 컨테이너나 노드가 없으면 렌더링할 수 없음
+      if (!context.root.container || !context.root.node) {
+        return;
       }
+      prepareFreshWork(Priorities.TRANSITION);
+      performConcurrentWork();
     });
+  });
+};
+
+/**
+ * 주어진 루트를 렌더링하는 스케줄러를 생성합니다.
+ * 루트마다 별도의 스케줄러를 가지므로 한 루트의 렌더링 예약이 다른 루트에 영향을 주지 않습니다.
+ * 긴급한 업데이트는 마이크로태스크에서 한 번에 모아 중단 없이 렌더링하고, 진행 중인 전환 렌더링보다 먼저 커밋됩니다.
+ * 전환 업데이트는 다음 태스크부터 시간을 나누어 렌더링하며, 긴급한 렌더링이 끝난 뒤 그 결과 위에서 다시 렌더링됩니다.
+ * 렌더링이 진행 중일 때 예약된 업데이트는 그 렌더링이 커밋된 뒤에 다시 렌더링합니다.
+ */
+export const createRenderScheduler =
+  (rootContext: Context) =>
+  (priority: Priority = Priorities.URGENT) => {
+    const { work } = rootContext;
+
+    if (priority === Priorities.TRANSITION) {
+      work.transitionPending = true;
+      // 진행 중인 렌더링이 있으면 커밋된 뒤에 예약됩니다
+      if (!work.next) {
+        scheduleTransition(rootContext);
+      }
+      return;
+    }
+
+    // 렌더 단계에서 발생한 업데이트는 렌더링이 커밋된 뒤에 다시 렌더링
+    if (work.next && work.priority === Priorities.URGENT) {
+      work.rerender = true;
+      return;
+    }
+    if (pendingRoots.has(rootContext)) {
+      return;
+    }
+
+    pendingRoots.add(rootContext);
+    // 배치 중이면 배치가 끝날 때 한 번에 예약
+    if (batchDepth === 0) {
+      scheduleCallback(Priorities.URGENT, () => performUrgentWork(rootContext));
+    }
+  };
+
+/**
+ * 함수 안에서 발생한 업데이트들을 모아 한 번의 렌더링으로 처리합니다.
+ * 가장 바깥의 배치가 끝날 때 업데이트된 루트마다 한 번씩 렌더링을 예약합니다.
+ * 외부 스토어의 구독 콜백처럼 리액트 밖에서 여러 setState를 연달아 호출하는 경우에 사용합니다.
+ *
+ * @param fn - 업데이트를 발생시키는 함수
+ * @returns fn의 반환값
+ */
+export const batchedUpdates = <T>(fn: () => T): T => {
+  batchDepth++;
+  try {
+    return fn();
+  } finally {
+    batchDepth--;
+    if (batchDepth === 0) {
+      // 이미 예약된 루트에 다시 예약되더라도 performUrgentWork가 중복 렌더링을 건너뜁니다
+      pendingRoots.forEach((rootContext) => scheduleCallback(Priorities.URGENT, () => performUrgentWork(rootContext)));
+    }
   }
 };
 
 /**
- * `render` 함수를 마이크로태스크 큐에 추가하여 중복 실행을 방지합니다.
+ * 함수 안에서 발생한 업데이트를 동기적으로 렌더링하고 커밋합니다.
+ * 이미 예약되어 있던 긴급한 렌더링도 함께 처리하므로, flushSync가 반환된 직후에는 DOM이 최신 상태입니다.
+ * 상태 변경 직후 새로 추가된 요소로 스크롤하거나 포커스를 옮기는 것처럼 DOM을 바로 읽어야 하는 경우에 사용합니다.
+ * 전환 업데이트는 기다리지 않으며, 커밋이 끝난 뒤 이어서 렌더링됩니다.
+ *
+ * @param fn - 업데이트를 발생시키는 함수 (생략하면 예약된 렌더링만 처리합니다)
+ * @returns fn의 반환값
  */
-export const enqueueRender = withEnqueue(render);
+export const flushSync = <T>(fn?: () => T): T | undefined => {
+  batchDepth++;
+  try {
+    // startTransition 안에서 호출되더라도 함수 안의 업데이트는 긴급한 업데이트로 처리합니다
+    return fn && runWithPriority(Priorities.URGENT, fn);
+  } finally {
+    batchDepth--;
+    // 진행 중이던 전환 렌더링은 중단하고 긴급한 업데이트만 반영하여 렌더링합니다
+    [...pendingRoots].forEach((rootContext) => runWithContext(rootContext, render));
+  }
+};
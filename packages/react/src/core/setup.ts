@@ -1,8 +1,33 @@
-import { context } from "./context";
-import { VNode } from "./types";
+import { createRootContext, runWithContext } from "./context";
+import { Context, VNode } from "./types";
 import { removeInstance } from "./dom";
 import { cleanupUnusedHooks } from "./hooks";
-import { render, enqueueRender } from "./render";
+import { render, createRenderScheduler, resetWork } from "./render";
+import { unmount } from "./commit";
+import { listenToAllSupportedEvents, unlistenToAllEvents } from "./events";
+import { startHydration, stopHydration } from "./hydration";
+
+/**
+ * 컨테이너별 루트 컨텍스트 저장소입니다.
+ * 같은 컨테이너에 다시 렌더링하면 기존 루트를 재사용하고, 다른 컨테이너는 서로 독립적인 루트를 가집니다.
+ */
+const rootContexts = new WeakMap<HTMLElement, Context>();
+
+/**
+ * 컨테이너에 연결된 루트 컨텍스트를 반환합니다. 없으면 새로 생성합니다.
+ */
+export const getRootContext = (container: HTMLElement): Context => {
+  let rootContext = rootContexts.get(container);
+
+  if (!rootContext) {
+    rootContext = createRootContext();
+    // 렌더링 스케줄러를 설정합니다 (순환 import 방지)
+    rootContext.scheduleRender = createRenderScheduler(rootContext);
+    rootContexts.set(container, rootContext);
+  }
+
+  return rootContext;
+};
 
 /**
  * Mini-React 애플리케이션의 루트를 설정하고 첫 렌더링을 시작합니다.
@@ -21,29 +46,137 @@ export const setup = (rootNode: VNode | null, container: HTMLElement): void => {
     throw new Error("Root element cannot be null");
   }
 
-  // 3. 이전 렌더링 내용을 정리합니다
-  // 이전 인스턴스가 있으면 DOM에서 제거하고 이펙트 클린업을 실행합니다
-  if (context.root.instance) {
-    removeInstance(context.root.instance);
+  // 컨테이너에 해당하는 루트의 컨텍스트에서 초기화와 렌더링을 진행합니다
+  const rootContext = getRootContext(container);
+
+  runWithContext(rootContext, () => {
+    // 3. 이전 렌더링 내용을 정리합니다
+    // 이전 인스턴스가 있으면 DOM에서 제거하고 이펙트 클린업을 실행합니다
+    if (rootContext.root.instance) {
+      removeInstance(rootContext.root.instance);
+    }
+
+    // 컨테이너의 모든 자식 노드를 제거합니다
+    while (container.firstChild) {
+      container.removeChild(container.firstChild);
+    }
+
+    // 4. 루트 컨텍스트를 리셋하고, 컨테이너에 위임 이벤트 리스너를 등록합니다
+    rootContext.root.reset({ container, node: rootNode });
+    listenToAllSupportedEvents(container);
+
+    // 5. 훅 컨텍스트를 초기화합니다
+    rootContext.hooks.clear();
+
+    // 6. 미사용 훅을 정리합니다 (초기 렌더링이므로 모든 기존 훅 정리)
+    cleanupUnusedHooks();
+
+    // 7. 첫 렌더링을 실행합니다
+    render();
+  });
+};
+
+/**
+ * 서버에서 렌더링된 HTML이 있는 컨테이너에 루트를 연결합니다.
+ * 컨테이너를 비우지 않고 기존 DOM 노드를 인스턴스의 dom으로 재사용하며, 이벤트 리스너를 등록하고 이펙트를 실행합니다.
+ * 서버 HTML과 일치하지 않는 부분은 개발 모드에서 경고한 뒤 클라이언트에서 새로 렌더링합니다.
+ *
+ * @param rootNode - 렌더링할 최상위 VNode (서버에서 렌더링한 것과 같은 트리)
+ * @param container - 서버에서 렌더링된 HTML을 담고 있는 DOM 컨테이너
+ */
+export const hydrate = (rootNode: VNode | null, container: HTMLElement): void => {
+  if (!container) {
+    throw new Error("Container element is required");
   }
 
-  // 컨테이너의 모든 자식 노드를 제거합니다
-  while (container.firstChild) {
-    container.removeChild(container.firstChild);
+  if (rootNode === null) {
+    throw new Error("Root element cannot be null");
   }
 
-  // 4. 루트 컨텍스트를 리셋합니다
-  context.root.reset({ container, node: rootNode });
+  const rootContext = getRootContext(container);
 
-  // 5. 훅 컨텍스트를 초기화합니다
-  context.hooks.clear();
+  runWithContext(rootContext, () => {
+    rootContext.root.reset({ container, node: rootNode });
+    listenToAllSupportedEvents(container);
+    rootContext.hooks.clear();
 
-  // 6. 렌더링 스케줄러를 설정합니다 (순환 import 방지)
-  context.scheduleRender = enqueueRender;
+    // 첫 렌더링 동안 기존 DOM 노드를 재사용합니다 (렌더링 중 에러가 발생해도 하이드레이션 상태를 남기지 않음)
+    startHydration(container);
+    try {
+      render();
+    } finally {
+      stopHydration();
+    }
+  });
+};
+
+/**
+ * 루트에 새로운 VNode를 렌더링합니다.
+ * 이미 마운트된 루트라면 기존 인스턴스를 기준으로 재조정하여 타입이 같은 컴포넌트의 상태를 유지하고,
+ * 아직 마운트되지 않았다면 `setup`으로 첫 렌더링을 시작합니다.
+ *
+ * @param rootNode - 렌더링할 최상위 VNode
+ * @param container - VNode가 렌더링될 DOM 컨테이너
+ */
+export const renderRoot = (rootNode: VNode | null, container: HTMLElement): void => {
+  const rootContext = container ? rootContexts.get(container) : undefined;
+
+  // 마운트된 적이 없는 루트는 처음부터 설정합니다
+  if (!rootContext?.root.instance) {
+    setup(rootNode, container);
+    return;
+  }
+
+  if (rootNode === null) {
+    throw new Error("Root element cannot be null");
+  }
 
-  // 7. 미사용 훅을 정리합니다 (초기 렌더링이므로 모든 기존 훅 정리)
-  cleanupUnusedHooks();
+  // 루트 노드만 교체하고 이전 인스턴스를 유지한 채 다시 렌더링합니다
+  runWithContext(rootContext, () => {
+    rootContext.root.node = rootNode;
+    render();
+  });
+};
+
+/**
+ * 루트를 언마운트합니다.
+ * 모든 이펙트 클린업을 실행하고, 훅 상태를 비운 뒤 컨테이너를 비웁니다.
+ *
+ * @param container - 언마운트할 루트의 DOM 컨테이너
+ */
+export const unmountRoot = (container: HTMLElement): void => {
+  const rootContext = rootContexts.get(container);
+  if (!rootContext) {
+    return;
+  }
+
+  runWithContext(rootContext, () => {
+    // 방문 기록을 비우면 모든 경로가 미사용으로 간주되어 이펙트 클린업과 함께 정리됩니다
+    rootContext.hooks.visited.clear();
+    cleanupUnusedHooks();
+    rootContext.hooks.clear();
+    rootContext.effects.queue = [];
+    rootContext.effects.layoutQueue = [];
+
+    // 진행 중이던 렌더링이 있으면 커밋되지 않도록 버립니다
+    resetWork();
+    rootContext.work.transitionPending = false;
+
+    // 인스턴스 트리를 언마운트하여 ref를 해제하고 DOM에서 제거합니다
+    if (rootContext.root.instance) {
+      unmount(rootContext.root.instance);
+    }
+  });
+
+  // 컨테이너의 모든 자식 노드와 위임 이벤트 리스너를 제거합니다
+  while (container.firstChild) {
+    container.removeChild(container.firstChild);
+  }
+  unlistenToAllEvents(container, rootContext);
 
-  // 8. 첫 렌더링을 실행합니다
-  render();
+  // 예약된 렌더링이 있더라도 아무것도 그리지 않도록 루트 정보를 비웁니다
+  rootContext.root.container = null;
+  rootContext.root.node = null;
+  rootContext.root.instance = null;
+  rootContexts.delete(container);
 };
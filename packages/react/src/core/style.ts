@@ -0,0 +1,166 @@
+/**
+ * 숫자 값에 px 단위를 붙이지 않는 스타일 속성들입니다.
+ */
+const unitlessProperties = new Set([
+  "animationIterationCount",
+  "aspectRatio",
+  "borderImageOutset",
+  "borderImageSlice",
+  "borderImageWidth",
+  "boxFlex",
+  "boxFlexGroup",
+  "boxOrdinalGroup",
+  "columnCount",
+  "columns",
+  "flex",
+  "flexGrow",
+  "flexPositive",
+  "flexShrink",
+  "flexNegative",
+  "flexOrder",
+  "gridArea",
+  "gridRow",
+  "gridRowEnd",
+  "gridRowSpan",
+  "gridRowStart",
+  "gridColumn",
+  "gridColumnEnd",
+  "gridColumnSpan",
+  "gridColumnStart",
+  "fontWeight",
+  "lineClamp",
+  "lineHeight",
+  "opacity",
+  "order",
+  "orphans",
+  "scale",
+  "tabSize",
+  "widows",
+  "zIndex",
+  "zoom",
+  "fillOpacity",
+  "floodOpacity",
+  "stopOpacity",
+  "strokeDasharray",
+  "strokeDashoffset",
+  "strokeMiterlimit",
+  "strokeOpacity",
+  "strokeWidth",
+]);
+
+const IMPORTANT_PATTERN = /\s*!important\s*$/;
+
+/**
+ * 벤더 접두사를 제외한 속성 이름이 단위 없는 속성인지 확인합니다. (WebkitLineClamp -> lineClamp)
+ */
+const isUnitlessProperty = (name: string): boolean => {
+  const unprefixed = name.replace(/^(Webkit|Moz|ms|O)([A-Z])/, (_, __, char: string) => char.toLowerCase());
+  return unitlessProperties.has(unprefixed);
+};
+
+/**
+ * camelCase 속성 이름을 CSS 속성 이름으로 변환합니다. (backgroundColor -> background-color, msTransform -> -ms-transform)
+ */
+const hyphenate = (name: string): string =>
+  name.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`).replace(/^ms-/, "-ms-");
+
+/**
+ * 스타일 값을 CSS 문자열로 변환합니다.
+ * 숫자는 단위 없는 속성과 사용자 정의 속성이 아니면 px을 붙이고, null/boolean/빈 문자열은 제거할 값("")으로 취급합니다.
+ */
+const toStyleValue = (name: string, value: unknown): string => {
+  if (value == null || typeof value === "boolean" || value === "") {
+    return "";
+  }
+  if (typeof value === "number" && value !== 0 && !name.startsWith("--") && !isUnitlessProperty(name)) {
+    return `${value}px`;
+  }
+  return String(value).trim();
+};
+
+/**
+ * 하나의 스타일 속성을 설정합니다.
+ * 사용자 정의 속성(--*)은 이름을 그대로 사용하고, !important가 붙은 값은 우선순위와 함께 설정합니다.
+ */
+const setStyleProperty = (style: CSSStyleDeclaration, name: string, value: unknown): void => {
+  const styleValue = toStyleValue(name, value);
+  const cssName = name.startsWith("--") ? name : hyphenate(name);
+
+  if (styleValue === "") {
+    style.removeProperty(cssName);
+    return;
+  }
+
+  if (IMPORTANT_PATTERN.test(styleValue)) {
+    style.setProperty(cssName, styleValue.replace(IMPORTANT_PATTERN, ""), "important");
+    return;
+  }
+
+  style.setProperty(cssName, styleValue);
+};
+
+/**
+ * 이전 style prop과 새로운 style prop을 비교하여 요소의 스타일을 갱신합니다.
+ * 문자열 스타일은 cssText로 통째로 설정하고, 객체 스타일은 바뀐 속성만 반영합니다.
+ * 문자열과 객체 사이를 오가는 경우에는 이전 스타일을 모두 지운 뒤 새로 설정합니다.
+ */
+export const updateStyle = (dom: HTMLElement, prevStyle: unknown, nextStyle: unknown): void => {
+  // style이 제거된 경우
+  if (nextStyle == null || typeof nextStyle === "boolean") {
+    dom.removeAttribute("style");
+    return;
+  }
+
+  // 문자열 스타일
+  if (typeof nextStyle === "string") {
+    dom.style.cssText = nextStyle;
+    return;
+  }
+
+  const next = nextStyle as Record<string, unknown>;
+
+  // 이전 스타일이 객체가 아니면 (없거나 문자열) 모두 지우고 새로 설정
+  if (prevStyle == null || typeof prevStyle !== "object") {
+    dom.style.cssText = "";
+    Object.keys(next).forEach((name) => setStyleProperty(dom.style, name, next[name]));
+    return;
+  }
+
+  const prev = prevStyle as Record<string, unknown>;
+
+  // 이전 스타일 중 새 스타일에 없는 것 제거
+  Object.keys(prev).forEach((name) => {
+    if (!(name in next)) {
+      setStyleProperty(dom.style, name, null);
+    }
+  });
+
+  // 바뀐 스타일만 적용
+  Object.keys(next).forEach((name) => {
+    if (prev[name] !== next[name]) {
+      setStyleProperty(dom.style, name, next[name]);
+    }
+  });
+};
+
+/**
+ * style prop을 style 속성 문자열로 변환합니다.
+ * 서버 렌더링에서 사용하며, 값의 변환 규칙은 DOM에 설정할 때와 같습니다.
+ */
+export const serializeStyle = (style: unknown): string => {
+  if (typeof style === "string") {
+    return style;
+  }
+  if (style == null || typeof style !== "object") {
+    return "";
+  }
+
+  const declarations: string[] = [];
+  Object.entries(style as Record<string, unknown>).forEach(([name, value]) => {
+    const styleValue = toStyleValue(name, value);
+    if (styleValue !== "") {
+      declarations.push(`${name.startsWith("--") ? name : hyphenate(name)}:${styleValue}`);
+    }
+  });
+  return declarations.join(";");
+};
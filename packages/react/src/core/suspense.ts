@@ -0,0 +1,136 @@
+import { context } from "./context";
+import { Fragment, HookTypes } from "./constants";
+import { createElement } from "./elements";
+import { useForceUpdate } from "./hooks";
+import { FunctionComponent, Ref, SuspenseHook, VNode, WorkContext } from "./types";
+
+export interface SuspenseProps {
+  fallback?: VNode | null;
+  children?: VNode[];
+}
+
+/**
+ * 하위 트리가 thenable(Promise)을 던지면 준비될 때까지 fallback을 대신 렌더링하는 컴포넌트입니다.
+ * 던져진 thenable이 완료되면 자식들을 다시 렌더링합니다.
+ */
+export const Suspense: FunctionComponent<SuspenseProps> = ({ fallback = null, children }) => {
+  const currentPath = context.hooks.currentPath;
+  const currentCursor = context.hooks.currentCursor;
+  const hooks = context.hooks.currentHooks;
+
+  // 하위 트리에서 던져진 thenable은 커밋할 때 이 훅의 pending에 기록됩니다
+  if (currentCursor >= hooks.length) {
+    const suspenseHook: SuspenseHook = {
+      kind: HookTypes.SUSPENSE,
+      pending: new Set(),
+      retry: (thenable) => {
+        // 성공하든 실패하든 다시 렌더링하여 결과(또는 에러)를 반영합니다
+        const onSettled = () => {
+          suspenseHook.pending.delete(thenable);
+          suspenseHook.forceUpdate();
+        };
+        thenable.then(onSettled, onSettled);
+      },
+      forceUpdate: () => {},
+    };
+    hooks.push(suspenseHook);
+  }
+
+  const suspenseHook = hooks[currentCursor] as SuspenseHook;
+  context.hooks.cursor.set(currentPath, currentCursor + 1);
+  suspenseHook.forceUpdate = useForceUpdate();
+
+  // 이번 렌더링에서 잡혀 아직 커밋되지 않은 thenable은 작업 상태에서 확인합니다
+  const suspended = suspenseHook.pending.size > 0 || context.work.captured.has(currentPath);
+
+  // 자식과 fallback에 서로 다른 key를 주어, 전환될 때 이전 트리가 재사용되지 않고 언마운트되도록 합니다
+  if (suspended) {
+    return createElement(Fragment, { key: "fallback" }, fallback);
+  }
+
+  return createElement(Fragment, { key: "content" }, children);
+};
+
+Suspense.displayName = "Suspense";
+Suspense.isSuspense = true;
+
+/**
+ * 렌더링 중에 던져진 thenable을 작업 상태에 기록합니다.
+ * 기록된 thenable은 커밋할 때 경계의 훅에 반영되고, 완료되면 다시 렌더링되도록 예약됩니다.
+ * 이미 fallback을 렌더링 중인 경계라면 fallback 자체가 suspend된 것이므로 기록하지 않고 false를 반환합니다.
+ *
+ * @param path - Suspense 컴포넌트의 경로
+ * @param hooks - Suspense 컴포넌트의 훅 상태 배열
+ * @returns thenable을 기록했으면 true
+ */
+export const suspend = (path: string, hooks: unknown[] | undefined, thenable: PromiseLike<unknown>): boolean => {
+  const suspenseHook = hooks?.[0] as SuspenseHook | undefined;
+  if (suspenseHook?.kind !== HookTypes.SUSPENSE || suspenseHook.pending.size > 0 || context.work.captured.has(path)) {
+    return false;
+  }
+
+  context.work.captured.set(path, thenable);
+  return true;
+};
+
+/**
+ * 렌더링에서 Suspense들이 잡은 thenable을 경계의 훅에 반영하고, 완료되면 다시 렌더링되도록 예약합니다.
+ */
+export const commitSuspended = (captured: WorkContext["captured"]): void => {
+  captured.forEach((thenable, path) => {
+    const suspenseHook = context.hooks.state.get(path)?.[0] as SuspenseHook | undefined;
+    if (suspenseHook?.kind !== HookTypes.SUSPENSE) {
+      return;
+    }
+
+    suspenseHook.pending.add(thenable as PromiseLike<unknown>);
+    suspenseHook.retry(thenable as PromiseLike<unknown>);
+  });
+};
+
+/**
+ * 컴포넌트를 처음 렌더링할 때 동적으로 불러오는 컴포넌트를 생성합니다.
+ * 불러오는 동안에는 Promise를 던져 가장 가까운 Suspense가 fallback을 렌더링하도록 합니다.
+ *
+ * @param factory - `{ default: Component }` 형태의 모듈을 반환하는 함수 (예: `() => import("./Page")`)
+ * @returns 불러온 컴포넌트를 렌더링하는 컴포넌트
+ */
+export function lazy<P extends object>(factory: () => Promise<{ default: FunctionComponent<P> }>) {
+  let status: "idle" | "pending" | "resolved" | "rejected" = "idle";
+  let promise: Promise<void> | null = null;
+  let Component: FunctionComponent<P> | null = null;
+  let loadError: unknown = null;
+
+  const LazyComponent: FunctionComponent<P & { ref?: Ref }> = ({ ref, ...props }) => {
+    if (status === "resolved") {
+      // 불러온 컴포넌트에 ref와 props를 그대로 전달합니다
+      return createElement(Component!, { ...props, ref });
+    }
+
+    if (status === "rejected") {
+      throw loadError;
+    }
+
+    // 처음 렌더링될 때 한 번만 불러오기를 시작합니다
+    if (!promise) {
+      status = "pending";
+      promise = factory().then(
+        (module) => {
+          status = "resolved";
+          Component = module.default;
+        },
+        (error) => {
+          status = "rejected";
+          loadError = error;
+        },
+      );
+    }
+
+    throw promise;
+  };
+
+  LazyComponent.displayName = "Lazy";
+  LazyComponent.isForwardRef = true;
+
+  return LazyComponent;
+}
@@ -0,0 +1,51 @@
+import { useEffect, useState } from "./hooks";
+import { Priorities, runWithPriority } from "../utils";
+
+/**
+ * 함수 안에서 발생한 업데이트를 전환(transition) 업데이트로 표시합니다.
+ * 전환 업데이트는 다음 태스크부터 시간을 나누어 렌더링되며, 그 사이에 발생한 긴급한 업데이트가 먼저 렌더링된 뒤
+ * 그 결과 위에서 다시 렌더링됩니다. 입력은 바로 반영하고 무거운 목록의 갱신은 늦춰도 되는 경우에 사용합니다.
+ *
+ * @param callback - 전환 업데이트를 발생시키는 함수
+ */
+export const startTransition = (callback: () => void): void => {
+  runWithPriority(Priorities.TRANSITION, callback);
+};
+
+/**
+ * 전환 업데이트를 시작하는 함수와, 그 업데이트가 아직 렌더링되지 않았는지를 나타내는 isPending을 반환하는 훅입니다.
+ * isPending은 긴급한 업데이트로 바로 true가 되고, 전환 업데이트와 함께 렌더링될 때 false가 됩니다.
+ *
+ * @returns [isPending, 렌더링 간에 참조가 유지되는 startTransition 함수]
+ */
+export const useTransition = (): [boolean, (callback: () => void) => void] => {
+  const [isPending, setPending] = useState(false);
+
+  const [start] = useState(() => (callback: () => void) => {
+    setPending(true);
+    startTransition(() => {
+      setPending(false);
+      callback();
+    });
+  });
+
+  return [isPending, start];
+};
+
+/**
+ * 값의 변경을 긴급한 렌더링보다 늦게 반영하는 훅입니다.
+ * 값이 바뀌면 먼저 이전 값으로 렌더링한 뒤, 새 값으로의 렌더링을 전환 업데이트로 예약합니다.
+ * 입력값으로 큰 목록을 필터링할 때, 입력은 바로 반영하고 목록은 뒤따라 갱신하도록 할 수 있습니다.
+ *
+ * @param value - 늦게 반영할 값
+ * @returns 긴급한 렌더링에서는 이전 값, 전환 렌더링이 커밋된 뒤에는 최신 값
+ */
+export const useDeferredValue = <T>(value: T): T => {
+  const [deferredValue, setDeferredValue] = useState(value);
+
+  useEffect(() => {
+    startTransition(() => setDeferredValue(value));
+  }, [value]);
+
+  return deferredValue;
+};
@@ -1,4 +1,5 @@
-import type { HookType, NodeType } from "./constants";
+import type { Priority } from "../utils";
+import type { EffectType, HookType, NodeType } from "./constants";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type Props = Record<string, any> & { children?: VNode[] };
@@ -6,11 +7,26 @@ type Props = Record<string, any> & { children?: VNode[] };
 export interface FunctionComponent<P extends Props> {
   (props: P): VNode | null;
   displayName?: string;
+  isForwardRef?: boolean;
+  isErrorBoundary?: boolean;
+  isSuspense?: boolean;
+  /** memo로 감싼 컴포넌트의 props 비교 함수 (true를 반환하면 재조정기가 하위 트리의 렌더링을 건너뜁니다) */
+  equals?: (prevProps: P, nextProps: P) => boolean;
 }
 
+export interface RefObject<T = unknown> {
+  current: T;
+}
+
+export type RefCallback<T = unknown> = (node: T | null) => (() => void) | void;
+
+export type Ref<T = unknown> = RefObject<T | null> | RefCallback<T> | null;
+
 export interface VNode {
   type: string | symbol | React.ComponentType;
   key: string | number | null;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ref?: Ref<any>;
   props: Props;
 }
 
@@ -21,19 +37,130 @@ export interface Instance {
   children: (Instance | null)[];
   key: string | number | null;
   path: string;
+  parent?: Instance | null;
+  refCleanup?: (() => void) | null;
+  pending?: PendingWork | null;
 }
 
+/**
+ * 렌더 단계에서 계산되어 커밋을 기다리는 인스턴스의 변경 사항입니다.
+ * 커밋되기 전까지 인스턴스의 node, path, children은 화면에 반영된 이전 값을 유지합니다.
+ */
+export interface PendingWork {
+  node: VNode;
+  path: string;
+  parent: Instance | null;
+  /** 부모의 새 자식 목록에서의 위치 (작업 루프가 다음 형제를 찾을 때 사용) */
+  index: number;
+  children: Instance[];
+  /** 이번 렌더링에서 새로 생성된 인스턴스인지 여부 */
+  isNew: boolean;
+  /** 경계 컴포넌트가 렌더링을 시작할 때의 작업 목록 길이와 하이드레이션 위치 (하위 트리를 버리고 fallback을 렌더링할 때 사용) */
+  checkpoint?: { completed: number; effects: number; hydration?: HydrationSnapshot };
+  /** 이전 렌더링 결과를 그대로 사용하여 하위 트리의 렌더링을 건너뛰었는지 여부 */
+  skipped?: boolean;
+}
+
+/**
+ * 하이드레이션 중 부모 DOM별로 다음에 재사용할 서버 렌더링 노드와, 클라이언트 노드로 교체된 서버 렌더링 노드들입니다.
+ */
+export interface HydrationSnapshot {
+  cursors: Map<Node, ChildNode | null>;
+  replaced: Map<Node, ChildNode[]>;
+}
+
+/**
+ * 렌더 단계에서 기록되어 커밋 단계에서 DOM에 반영되는 작업입니다.
+ * - PLACEMENT: 새로 생성되었거나 위치가 바뀐 인스턴스의 DOM 노드를 삽입
+ * - UPDATE: HOST 요소의 props 변경이나 TEXT 노드의 내용 변경을 반영
+ * - DELETION: 더 이상 사용되지 않는 인스턴스를 언마운트하고 DOM에서 제거
+ * - REF: 이전 ref를 해제하고, DOM 변경이 끝난 뒤 새 ref에 DOM 노드를 연결
+ * - HYDRATION: 재사용한 서버 렌더링 요소에서 대응되지 않은 자식 노드를 제거하고 props를 반영
+ */
+export type CommitEffect =
+  | { type: EffectType["PLACEMENT"]; instance: Instance }
+  | { type: EffectType["UPDATE"]; instance: Instance; prevProps: Props }
+  | { type: EffectType["DELETION"]; instance: Instance }
+  | { type: EffectType["REF"]; instance: Instance; prevRef: Ref | undefined }
+  | { type: EffectType["HYDRATION"]; instance: Instance; unclaimed: ChildNode[] };
+
+export type SyntheticEvent<E extends Event = Event> = E & {
+  nativeEvent: E;
+  isPropagationStopped: () => boolean;
+  isDefaultPrevented: () => boolean;
+  persist: () => void;
+};
+
 export interface EffectHook {
   kind: HookType["EFFECT"];
+  /** 마지막으로 커밋된 이펙트의 의존성 배열 (아직 커밋되지 않았거나 의존성이 없으면 null) */
   deps: unknown[] | null;
   cleanup: (() => void) | null;
-  effect: () => (() => void) | void;
+}
+
+/**
+ * 상태 훅에 예약된 업데이트입니다.
+ */
+export interface Update<A = unknown> {
+  action: A;
+  priority: Priority;
+  /** 이 업데이트가 반영된 렌더링이 커밋되었는지 여부 */
+  committed: boolean;
+}
+
+/**
+ * useReducer / useState의 훅 상태입니다.
+ * 렌더링할 때마다 baseState에서 시작하여 렌더링의 우선순위에 포함되는 업데이트만 순서대로 적용합니다.
+ * 건너뛴 업데이트는 queue에 남아, 나중에 그 업데이트를 포함하는 렌더링에서 뒤의 업데이트들과 함께 다시 적용됩니다.
+ */
+export interface ReducerHook<S = unknown, A = unknown> {
+  kind: HookType["REDUCER"];
+  /** queue의 업데이트들이 적용되기 전의 상태 */
+  baseState: S;
+  queue: Update<A>[];
+  reducer: (state: S, action: A) => S;
+  dispatch: (action: A) => void;
+}
+
+export interface ReactContext<T = unknown> {
+  Provider: FunctionComponent<{ value: T; children?: VNode[] }>;
+  defaultValue: T;
+  displayName?: string;
+}
+
+export interface ProviderHook<T = unknown> {
+  kind: HookType["PROVIDER"];
+  context: ReactContext<T>;
+  value: T;
+  /** 커밋된 값을 읽은 컴포넌트들의 경로 (값이 바뀌면 렌더링을 건너뛴 하위 트리 안에서도 다시 렌더링됨) */
+  consumers: Set<string>;
+}
+
+export interface ErrorBoundaryHook {
+  kind: HookType["ERROR_BOUNDARY"];
+  hasError: boolean;
+  error: unknown;
+  reset: () => void;
+  /** 에러 상태가 바뀌었을 때 경계를 다시 렌더링하도록 예약하는 함수 */
+  forceUpdate: () => void;
+}
+
+export interface SuspenseHook {
+  kind: HookType["SUSPENSE"];
+  pending: Set<PromiseLike<unknown>>;
+  retry: (thenable: PromiseLike<unknown>) => void;
+  /** 기다리던 thenable이 완료되었을 때 경계를 다시 렌더링하도록 예약하는 함수 */
+  forceUpdate: () => void;
 }
 
 export interface RootContext {
   container: HTMLElement | null;
   node: VNode | null;
   instance: Instance | null;
+  /** 마운트된 컴포넌트 인스턴스들 (경로 → 인스턴스, 업데이트된 컴포넌트부터 렌더링을 시작할 때 사용) */
+  instances: Map<string, Instance>;
+  /** 이 루트의 포털들이 사용하는 컨테이너들 (컨테이너 → 포털의 수, 나중에 등록되는 이벤트도 함께 등록하기 위해 사용) */
+  portalContainers: Map<EventTarget, number>;
 
   reset(options: { container: HTMLElement; node: VNode }): void;
 }
@@ -54,15 +181,59 @@ export interface HooksContext {
   readonly currentHooks: State[];
 }
 
+/**
+ * 커밋된 뒤 실행되도록 예약된 이펙트입니다.
+ * 렌더링이 버려질 수 있으므로 새 이펙트와 의존성은 훅이 아닌 예약에 담아 두고, 커밋할 때 훅에 기록합니다.
+ */
+export interface QueuedEffect {
+  path: string;
+  cursor: number;
+  effect: () => (() => void) | void;
+  deps: unknown[] | null;
+}
+
 export interface EffectsContext {
-  queue: Array<{ path: string; cursor: number }>;
+  queue: QueuedEffect[];
+  layoutQueue: QueuedEffect[];
+}
+
+export interface WorkContext {
+  /** 렌더링 중인 루트 인스턴스 */
+  root: Instance | null;
+  /** 다음에 처리할 작업 단위 (null이면 진행 중인 렌더링이 없음) */
+  next: Instance | null;
+  /** 렌더링을 마친 인스턴스들 (커밋할 때 렌더 단계에서 계산된 값이 반영됨) */
+  completed: Instance[];
+  /** 커밋 단계에서 순서대로 반영할 작업 목록 */
+  effectList: CommitEffect[];
+  /** 렌더링 도중에 새로운 업데이트가 예약되었는지 여부 */
+  rerender: boolean;
+  /** 진행 중인 렌더링의 우선순위 (이 우선순위 이하의 업데이트만 반영됨) */
+  priority: Priority;
+  /** 진행 중인 렌더링에 반영된 업데이트들 (커밋할 때 committed로 표시됨) */
+  includedUpdates: Update[];
+  /** 아직 렌더링되지 않은 전환 업데이트가 있는지 여부 */
+  transitionPending: boolean;
+  /** 루트부터 렌더링하는지 여부 (false면 업데이트된 컴포넌트들의 하위 트리만 렌더링) */
+  fromRoot: boolean;
+  /** 렌더링을 시작한 인스턴스들 (위에서 아래 순서이며, 루트부터 렌더링하면 루트 하나) */
+  scopes: Instance[];
+  /** 렌더링 중인 하위 트리의 시작 인스턴스 */
+  scope: Instance | null;
+  /** 진행 중인 렌더링에서 다시 실행해야 하는 컴포넌트들의 경로 (이 경로들의 조상은 렌더링을 건너뛰더라도 하위 트리로 내려감) */
+  pendingPaths: Set<string>;
+  /** 진행 중인 렌더링에서 Provider들이 제공한 값과 그 값을 읽은 컴포넌트들의 경로 (커밋할 때 Provider의 훅에 반영됨) */
+  providers: Map<string, { value: unknown; consumers: Set<string> }>;
+  /** 진행 중인 렌더링에서 ErrorBoundary들이 잡은 에러와 Suspense들이 잡은 thenable (커밋할 때 경계의 훅에 반영됨) */
+  captured: Map<string, unknown>;
 }
 
 export interface Context {
   root: RootContext;
   hooks: HooksContext;
   effects: EffectsContext;
-  scheduleRender: (() => void) | null;
+  work: WorkContext;
+  scheduleRender: ((priority?: Priority) => void) | null;
 }
 
 declare global {
@@ -0,0 +1,28 @@
+import { type FunctionComponent, type Ref, type VNode } from "../core";
+
+/**
+ * forwardRef에 전달하는 렌더 함수의 형태입니다. props와 함께 부모가 전달한 ref를 두 번째 인자로 받습니다.
+ */
+export interface ForwardRefRenderFunction<T, P> {
+  (props: P, ref: Ref<T>): VNode | null;
+  displayName?: string;
+}
+
+/**
+ * 부모가 전달한 ref를 하위 요소나 useImperativeHandle로 넘길 수 있게 해주는 고차 컴포넌트(HOC)입니다.
+ * 재조정기는 forwardRef 컴포넌트에 VNode의 ref를 props.ref로 전달합니다.
+ *
+ * @param render - (props, ref)를 받아 VNode를 반환하는 렌더 함수
+ * @returns ref를 전달받을 수 있는 새로운 컴포넌트
+ */
+export function forwardRef<T, P extends object = object>(render: ForwardRefRenderFunction<T, P>) {
+  const ForwardRefComponent: FunctionComponent<P & { ref?: Ref<T> }> = ({ ref = null, ...props }) => {
+    // ref를 제외한 props와 ref를 분리하여 렌더 함수에 전달합니다.
+    return render(props as P, ref);
+  };
+
+  ForwardRefComponent.displayName = `ForwardRef(${render.displayName || render.name})`;
+  ForwardRefComponent.isForwardRef = true;
+
+  return ForwardRefComponent;
+}
@@ -0,0 +1,42 @@
+import { useLayoutEffect, type Ref } from "../core";
+import { DependencyList } from "./types";
+
+/**
+ * forwardRef로 전달받은 ref에 DOM 노드 대신 직접 정의한 객체(핸들)를 노출합니다.
+ * 레이아웃 이펙트 단계에서 연결되므로 부모의 useLayoutEffect/useEffect에서 바로 사용할 수 있습니다.
+ *
+ * @param ref - 핸들을 연결할 ref
+ * @param create - 노출할 핸들을 생성하는 함수
+ * @param deps - 의존성 배열. 이 값들이나 ref가 변경될 때만 핸들을 다시 생성합니다.
+ */
+export const useImperativeHandle = <T>(ref: Ref<T> | undefined, create: () => T, deps?: DependencyList): void => {
+  useLayoutEffect(
+    () => {
+      if (!ref) {
+        return;
+      }
+
+      const handle = create();
+
+      // 콜백 ref는 핸들을 인자로 호출하고, 해제 시 클린업 함수나 null로 정리합니다.
+      if (typeof ref === "function") {
+        const cleanup = ref(handle);
+        return () => {
+          if (typeof cleanup === "function") {
+            cleanup();
+          } else {
+            ref(null);
+          }
+        };
+      }
+
+      // 객체 ref는 current에 핸들을 저장하고, 해제 시 null로 되돌립니다.
+      ref.current = handle;
+      return () => {
+        ref.current = null;
+      };
+    },
+    // ref가 바뀌어도 새 ref에 핸들을 다시 연결해야 하므로 의존성에 포함합니다.
+    deps ? [...deps, ref] : undefined,
+  );
+};
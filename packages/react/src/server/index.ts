@@ -0,0 +1,2 @@
+export { renderToString, renderToStaticMarkup } from "./renderToString";
+export { renderToReadableStream } from "./renderToReadableStream";
@@ -0,0 +1,102 @@
+import { context, createRootContext, runWithContext } from "../core/context";
+import type { VNode } from "../core/types";
+import { createServerRenderState, renderNode, SuspendedBoundary } from "./renderer";
+
+/**
+ * fallback 자리(`B:id` template부터 `<!--/$-->`까지)를 숨겨진 `S:id` 요소의 내용으로 교체하는 인라인 스크립트입니다.
+ * 첫 번째로 완료된 경계와 함께 한 번만 전송됩니다.
+ */
+const COMPLETE_BOUNDARY_FUNCTION =
+  "function $RC(b,s){var t=document.getElementById(b),c=document.getElementById(s);if(!t||!c)return;" +
+  'var p=t.parentNode,m=t.previousSibling,n=t.nextSibling,d=0;if(m&&m.nodeType===8)m.data="$";p.removeChild(t);' +
+  'while(n){var x=n.nextSibling;if(n.nodeType===8){if(n.data==="/$"){if(d===0)break;d--}else if(n.data==="$"||n.data==="$?")d++}' +
+  "p.removeChild(n);n=x}while(c.firstChild)p.insertBefore(c.firstChild,n);c.parentNode.removeChild(c)}";
+
+/**
+ * VNode 트리를 HTML 스트림으로 렌더링합니다.
+ * Suspense 경계 밖의 내용(shell)을 먼저 보내고, suspend된 경계는 fallback을 보낸 뒤
+ * thenable이 완료되면 내용과 함께 fallback을 교체하는 작은 인라인 스크립트를 이어서 보냅니다.
+ * 모든 경계가 완료되면 스트림이 닫히고, 렌더링 중 에러가 발생하면 스트림이 에러 상태가 됩니다.
+ * 읽는 쪽에서 스트림을 취소하면 이후에 완료되는 경계는 렌더링하거나 전송하지 않습니다.
+ *
+ * @param node - 렌더링할 최상위 VNode
+ * @returns UTF-8로 인코딩된 HTML 조각들을 내보내는 ReadableStream
+ */
+export const renderToReadableStream = (node: VNode): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const rootContext = createRootContext();
+  let closed = false;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      let nextId = 0;
+      let pendingCount = 0;
+      let functionSent = false;
+
+      const fail = (error: unknown) => {
+        if (!closed) {
+          closed = true;
+          controller.error(error);
+        }
+      };
+
+      /**
+       * 독립된 렌더링 상태에서 노드를 렌더링하고, 그 안에서 suspend된 경계들을 등록합니다.
+       */
+      const render = (target: VNode, path: string, componentStack: string[]): string => {
+        const state = createServerRenderState(true);
+        state.onSuspend = (boundary) => {
+          const id = nextId++;
+          waitForBoundary(id, boundary);
+          return id;
+        };
+        runWithContext(rootContext, () => {
+          context.hooks.componentStack = [...componentStack];
+          renderNode(state, target, path);
+        });
+        return state.html;
+      };
+
+      const waitForBoundary = (id: number, boundary: SuspendedBoundary) => {
+        pendingCount++;
+
+        // fallback을 렌더링한 뒤 경계가 잡은 thenable을 지웠으므로, 다시 렌더링하면 내용이 렌더링됩니다
+        const onSettled = () => {
+          if (closed) {
+            return;
+          }
+          try {
+            const html = render(boundary.node, boundary.path, boundary.componentStack);
+            const script = `${functionSent ? "" : `${COMPLETE_BOUNDARY_FUNCTION};`}$RC("B:${id}","S:${id}")`;
+            functionSent = true;
+            controller.enqueue(encoder.encode(`<div hidden id="S:${id}">${html}</div><script>${script}</script>`));
+          } catch (error) {
+            fail(error);
+            return;
+          }
+
+          pendingCount--;
+          if (pendingCount === 0) {
+            closed = true;
+            controller.close();
+          }
+        };
+        boundary.thenable.then(onSettled, onSettled);
+      };
+
+      try {
+        controller.enqueue(encoder.encode(render(node, "0", [])));
+      } catch (error) {
+        fail(error);
+        return;
+      }
+      if (pendingCount === 0) {
+        closed = true;
+        controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+};
@@ -0,0 +1,30 @@
+import { createRootContext, runWithContext } from "../core/context";
+import type { VNode } from "../core/types";
+import { createServerRenderState, renderNode } from "./renderer";
+
+/**
+ * 독립된 루트 컨텍스트에서 VNode 트리를 HTML 문자열로 렌더링합니다.
+ */
+const renderToHtml = (node: VNode, textSeparators: boolean): string => {
+  const state = createServerRenderState(textSeparators);
+  runWithContext(createRootContext(), () => renderNode(state, node, "0"));
+  return state.html;
+};
+
+/**
+ * VNode 트리를 HTML 문자열로 렌더링합니다.
+ * 컴포넌트는 초기 상태로 한 번만 실행되고 이펙트는 실행되지 않습니다.
+ * 인접한 텍스트 사이에는 `<!-- -->` 주석을 넣어 하이드레이션 시 텍스트 노드를 구분할 수 있게 합니다.
+ *
+ * @param node - 렌더링할 최상위 VNode
+ * @returns HTML 문자열
+ */
+export const renderToString = (node: VNode): string => renderToHtml(node, true);
+
+/**
+ * VNode 트리를 하이드레이션용 표식 없이 정적인 HTML 문자열로 렌더링합니다.
+ *
+ * @param node - 렌더링할 최상위 VNode
+ * @returns HTML 문자열
+ */
+export const renderToStaticMarkup = (node: VNode): string => renderToHtml(node, false);
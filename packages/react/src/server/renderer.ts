@@ -0,0 +1,231 @@
+import { context } from "../core/context";
+import { Fragment, PORTAL, TEXT_ELEMENT } from "../core/constants";
+import { createChildPath } from "../core/elements";
+import { captureError } from "../core/errorBoundary";
+import { suspend } from "../core/suspense";
+import type { FunctionComponent, VNode } from "../core/types";
+import { isEmptyValue, isThenable } from "../utils";
+import { escapeHtml, renderAttributes, voidElements } from "./serialize";
+
+/**
+ * 서버 렌더링 중에 누적되는 상태입니다.
+ */
+export interface ServerRenderState {
+  /** 지금까지 생성된 HTML */
+  html: string;
+  /** 마지막으로 출력한 노드가 텍스트인지 여부 */
+  lastWasText: boolean;
+  /** 인접한 텍스트 노드 사이에 구분 주석을 넣을지 여부 (하이드레이션에서 텍스트 노드를 나누기 위해 사용) */
+  textSeparators: boolean;
+  /** 렌더링 중인 select 요소의 value (option의 selected 여부를 결정) */
+  selectValue: unknown;
+  /**
+   * Suspense 경계가 suspend되었을 때 호출됩니다. (스트리밍 렌더링에서만 설정)
+   * 경계를 등록하고 fallback을 교체할 때 사용할 id를 반환합니다.
+   */
+  onSuspend: ((boundary: SuspendedBoundary) => number) | null;
+}
+
+/**
+ * 스트리밍 렌더링에서 내용을 나중에 보내기 위해 기록해 두는 Suspense 경계입니다.
+ */
+export interface SuspendedBoundary {
+  /** Suspense 컴포넌트의 VNode */
+  node: VNode;
+  /** Suspense 컴포넌트의 경로 */
+  path: string;
+  /** 경계 바깥의 컴포넌트 스택 (다시 렌더링할 때 useContext가 상위 Provider를 찾을 수 있도록 복원) */
+  componentStack: string[];
+  /** 경계를 suspend시킨 thenable */
+  thenable: PromiseLike<unknown>;
+}
+
+export const createServerRenderState = (textSeparators: boolean): ServerRenderState => ({
+  html: "",
+  lastWasText: false,
+  textSeparators,
+  selectValue: undefined,
+  onSuspend: null,
+});
+
+/**
+ * 자식 노드들로부터 텍스트만 이어 붙입니다. (option, textarea의 값 계산에 사용)
+ */
+const getTextContent = (children: VNode[] = []): string =>
+  children
+    .map((child) => (child?.type === TEXT_ELEMENT ? child.props.nodeValue : getTextContent(child?.props?.children)))
+    .join("");
+
+/**
+ * 자식 노드들을 순서대로 HTML로 렌더링합니다.
+ */
+const renderChildren = (state: ServerRenderState, children: VNode[], parentPath: string): void => {
+  children.forEach((child, index) => {
+    if (!child || isEmptyValue(child)) {
+      return;
+    }
+    renderNode(state, child, createChildPath(parentPath, child.key, index, child.type, children));
+  });
+};
+
+/**
+ * 컴포넌트 함수를 실행하고 그 결과를 HTML로 렌더링합니다.
+ */
+const renderComponentOutput = (state: ServerRenderState, node: VNode, path: string): void => {
+  context.hooks.cursor.set(path, 0);
+
+  const component = node.type as FunctionComponent<Record<string, unknown>>;
+  const props = node.props || {};
+  const componentProps = component.isForwardRef ? { ...props, ref: node.ref ?? null } : props;
+  const componentNode = component(componentProps);
+
+  if (componentNode) {
+    renderNode(
+      state,
+      componentNode,
+      createChildPath(path, componentNode.key ?? null, 0, componentNode.type, [componentNode]),
+    );
+  }
+};
+
+/**
+ * 컴포넌트를 렌더링합니다.
+ * 이펙트는 실행하지 않으며, Suspense와 ErrorBoundary는 클라이언트와 같이 하위 트리에서 던져진 값을 잡아 fallback을 렌더링합니다.
+ */
+const renderComponent = (state: ServerRenderState, node: VNode, path: string): void => {
+  const component = node.type as FunctionComponent<Record<string, unknown>>;
+
+  context.hooks.componentStack.push(path);
+  context.hooks.visited.add(path);
+
+  try {
+    if (!component.isSuspense && !component.isErrorBoundary) {
+      renderComponentOutput(state, node, path);
+      return;
+    }
+
+    // fallback으로 교체할 수 있도록 경계가 시작되기 전의 출력을 기억해 둡니다
+    const { html, lastWasText } = state;
+    try {
+      renderComponentOutput(state, node, path);
+    } catch (error) {
+      const hooks = context.hooks.state.get(path);
+      const captured = isThenable(error)
+        ? component.isSuspense && suspend(path, hooks, error)
+        : component.isErrorBoundary && captureError(path, hooks, error);
+      if (!captured) {
+        throw error;
+      }
+
+      state.html = html;
+      state.lastWasText = lastWasText;
+
+      try {
+        renderFallback(state, node, path, error);
+      } finally {
+        // 서버 렌더링에는 커밋 단계가 없으므로, fallback을 렌더링한 뒤 경계가 잡은 값을 지웁니다
+        context.work.captured.delete(path);
+      }
+    }
+  } finally {
+    context.hooks.componentStack.pop();
+  }
+};
+
+/**
+ * 값을 잡은 경계의 fallback을 렌더링합니다.
+ * 스트리밍 중이면 fallback을 표식으로 감싸 두고, thenable이 완료된 뒤 내용을 이어서 보냅니다.
+ */
+const renderFallback = (state: ServerRenderState, node: VNode, path: string, thrown: unknown): void => {
+  if (isThenable(thrown) && state.onSuspend) {
+    const componentStack = context.hooks.componentStack.slice(0, -1);
+    const id = state.onSuspend({ node, path, componentStack, thenable: thrown });
+    state.html += `<!--$?--><template id="B:${id}"></template>`;
+    renderComponentOutput(state, node, path);
+    state.html += "<!--/$-->";
+    state.lastWasText = false;
+    return;
+  }
+
+  renderComponentOutput(state, node, path);
+};
+
+/**
+ * HOST 요소를 여는 태그, 내용, 닫는 태그 순서로 렌더링합니다.
+ */
+const renderElement = (state: ServerRenderState, node: VNode, path: string): void => {
+  const type = node.type as string;
+  const props = node.props || {};
+  const children = props.children ?? [];
+
+  if (props.dangerouslySetInnerHTML != null && children.length > 0) {
+    throw new Error("Can only set one of `children` or `props.dangerouslySetInnerHTML`.");
+  }
+
+  const selected =
+    type === "option" &&
+    state.selectValue != null &&
+    [state.selectValue]
+      .flat()
+      .map(String)
+      .includes(String(props.value ?? getTextContent(children)));
+
+  state.html += `<${type}${renderAttributes(type, props, selected)}>`;
+  state.lastWasText = false;
+
+  if (voidElements.has(type)) {
+    return;
+  }
+
+  if (props.dangerouslySetInnerHTML != null) {
+    state.html += props.dangerouslySetInnerHTML.__html ?? "";
+  } else if (type === "textarea" && (props.value ?? props.defaultValue) != null) {
+    state.html += escapeHtml(props.value ?? props.defaultValue);
+  } else if (type === "select") {
+    const prevSelectValue = state.selectValue;
+    state.selectValue = props.value ?? props.defaultValue;
+    renderChildren(state, children, path);
+    state.selectValue = prevSelectValue;
+  } else {
+    renderChildren(state, children, path);
+  }
+
+  state.html += `</${type}>`;
+  state.lastWasText = false;
+};
+
+/**
+ * VNode를 HTML 문자열로 렌더링하여 state에 누적합니다.
+ */
+export const renderNode = (state: ServerRenderState, node: VNode, path: string): void => {
+  const { type } = node;
+
+  if (type === TEXT_ELEMENT) {
+    const text = node.props.nodeValue ?? "";
+    if (text === "") {
+      return;
+    }
+    if (state.textSeparators && state.lastWasText) {
+      state.html += "<!-- -->";
+    }
+    state.html += escapeHtml(text);
+    state.lastWasText = true;
+    return;
+  }
+
+  if (type === Fragment) {
+    renderChildren(state, node.props?.children ?? [], path);
+    return;
+  }
+
+  if (type === PORTAL) {
+    throw new Error("Portals are not currently supported by the server renderer.");
+  }
+
+  if (typeof type === "function") {
+    renderComponent(state, node, path);
+    return;
+  }
+
+  renderElement(state, node, path);
+};
@@ -0,0 +1,109 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { getAttributeName } from "../core/attributes";
+import { serializeStyle } from "../core/style";
+
+/**
+ * 닫는 태그가 없는 HTML 요소들입니다.
+ */
+export const voidElements = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+]);
+
+const escapeMap: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#x27;",
+};
+
+/**
+ * 텍스트와 속성 값에 포함된 HTML 특수 문자를 이스케이프합니다.
+ */
+export const escapeHtml = (value: unknown): string => String(value).replace(/[&<>"']/g, (char) => escapeMap[char]);
+
+/**
+ * HTML 속성 이름으로 안전하게 직렬화할 수 있는 문자만 허용합니다.
+ * 공백, 따옴표, `>`, `=` 등이 포함된 이름은 태그를 깨뜨리거나 새로운 속성을 주입할 수 있습니다.
+ */
+const safeAttributeName = /^[a-zA-Z:_][a-zA-Z0-9:_.-]*$/;
+
+/**
+ * props를 HTML 속성 문자열로 변환합니다.
+ * setDomProps가 DOM에 반영하는 규칙과 같게 style, className, boolean 속성을 직렬화합니다.
+ *
+ * @param type - 요소의 태그 이름
+ * @param props - 요소의 props
+ * @param selected - option 요소가 상위 select의 value와 일치하는지 여부
+ */
+export const renderAttributes = (type: string, props: Record<string, any>, selected = false): string => {
+  let html = "";
+
+  const appendAttribute = (name: string, value: unknown) => {
+    // boolean 속성은 true일 때만 빈 값으로 추가 (setAttribute(key, "")와 같은 결과)
+    if (value == null || value === false || !safeAttributeName.test(name)) {
+      return;
+    }
+    html += value === true ? ` ${name}=""` : ` ${name}="${escapeHtml(value)}"`;
+  };
+
+  Object.keys(props).forEach((key) => {
+    const value = props[key];
+
+    // 자식, innerHTML, 이벤트 핸들러 등 속성으로 표현되지 않는 값은 건너뜀
+    if (key === "children" || key === "dangerouslySetInnerHTML" || typeof value === "function") {
+      return;
+    }
+
+    switch (key) {
+      case "style": {
+        const style = serializeStyle(value);
+        if (style) {
+          appendAttribute("style", style);
+        }
+        return;
+      }
+      case "className":
+        appendAttribute("class", value);
+        return;
+      // textarea와 select의 value는 내용과 option 선택으로 표현됨
+      case "value":
+      case "defaultValue":
+        if (type === "textarea" || type === "select" || (key === "defaultValue" && props.value != null)) {
+          return;
+        }
+        appendAttribute("value", value == null ? value : String(value));
+        return;
+      case "checked":
+      case "defaultChecked":
+        if (key === "defaultChecked" && props.checked != null) {
+          return;
+        }
+        appendAttribute("checked", Boolean(value));
+        return;
+      case "selected":
+        return;
+      default:
+        appendAttribute(getAttributeName(key), value);
+    }
+  });
+
+  if (type === "option" && (selected || props.selected)) {
+    appendAttribute("selected", true);
+  }
+
+  return html;
+};
@@ -15,6 +15,72 @@ export const enqueue = (callback: () => void) => {
   }
 };
 
+/**
+ * 작업을 다음 태스크(매크로태스크)에서 실행합니다.
+ * 마이크로태스크와 달리 그 사이에 브라우저가 화면을 그리고 사용자 입력을 처리할 수 있습니다.
+ * `MessageChannel`을 사용하고, 없는 환경에서는 `setTimeout`을 사용합니다.
+ */
+export const scheduleTask = (callback: () => void) => {
+  if (typeof MessageChannel === "function") {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = () => {
+      channel.port1.close();
+      callback();
+    };
+    channel.port2.postMessage(null);
+  } else {
+    setTimeout(callback, 0);
+  }
+};
+
+/**
+ * 업데이트의 우선순위입니다. 값이 작을수록 먼저 처리됩니다.
+ * - URGENT: 입력처럼 즉시 반영되어야 하는 업데이트 (마이크로태스크에서 중단 없이 렌더링)
+ * - TRANSITION: 결과를 늦게 보여줘도 되는 업데이트 (다음 태스크부터 시간을 나누어 렌더링하며, 긴급한 업데이트에 양보)
+ */
+export const Priorities = {
+  URGENT: 0,
+  TRANSITION: 1,
+} as const;
+
+export type Priority = (typeof Priorities)[keyof typeof Priorities];
+
+/**
+ * 지금 발생하는 업데이트에 부여할 우선순위입니다.
+ */
+let currentPriority: Priority = Priorities.URGENT;
+
+/**
+ * 지금 발생하는 업데이트의 우선순위를 반환합니다.
+ */
+export const getCurrentPriority = (): Priority => currentPriority;
+
+/**
+ * 주어진 우선순위로 함수를 실행합니다. 함수 안에서 발생한 업데이트는 이 우선순위를 가집니다.
+ * 실행이 끝나면(예외가 발생하더라도) 이전 우선순위로 되돌립니다.
+ */
+export const runWithPriority = <T>(priority: Priority, fn: () => T): T => {
+  const prevPriority = currentPriority;
+  currentPriority = priority;
+  try {
+    return fn();
+  } finally {
+    currentPriority = prevPriority;
+  }
+};
+
+/**
+ * 우선순위에 맞는 시점에 작업을 실행합니다.
+ * 긴급한 작업은 마이크로태스크에서, 전환 작업은 브라우저가 입력을 처리할 수 있도록 다음 태스크에서 실행합니다.
+ */
+export const scheduleCallback = (priority: Priority, callback: () => void) => {
+  if (priority === Priorities.URGENT) {
+    enqueue(callback);
+  } else {
+    scheduleTask(callback);
+  }
+};
+
 /**
  * 함수가 여러 번 호출되더라도 실제 실행은 한 번만 스케줄링되도록 보장하는 고차 함수입니다.
  * 렌더링이나 이펙트 실행과 같은 작업의 중복을 방지하는 데 사용됩니다.
@@ -10,3 +10,18 @@ export const isEmptyValue = (value: unknown): boolean => {
   // React에서도 이러한 값들은 실제 DOM에 렌더링되지 않습니다
   return value == null || typeof value === "boolean";
 };
+
+/**
+ * 값이 then 메서드를 가진 Promise 유사 객체(thenable)인지 확인합니다.
+ * Suspense는 렌더링 중 던져진 thenable을 "아직 준비되지 않음" 신호로 사용합니다.
+ *
+ * @param value - 확인할 값
+ * @returns thenable이면 true, 그렇지 않으면 false
+ */
+export const isThenable = (value: unknown): value is PromiseLike<unknown> => {
+  return (
+    (typeof value === "object" || typeof value === "function") &&
+    value !== null &&
+    typeof (value as PromiseLike<unknown>).then === "function"
+  );
+};